@@ -0,0 +1,99 @@
+import React from 'react';
+import { AdPlayback } from './types';
+import { Translations } from './locales';
+import { formatTime } from './utils/formatTime';
+
+interface AdLayerProps {
+  playback: AdPlayback;
+  videoRef: (node: HTMLVideoElement | null) => void;
+  videoElement: HTMLVideoElement | null;
+  t: Translations;
+  onSkip: () => void;
+  onClick: () => void;
+}
+
+// Plays linear ads on their own <video>, so the content element keeps its source, position and tracks
+export const AdLayer: React.FC<AdLayerProps> = ({ playback, videoRef, videoElement, t, onSkip, onClick }) => {
+  const { ad, index, count, currentTime, duration, skippableIn, paused, muted } = playback;
+
+  const togglePlay = () => {
+    if (!videoElement) return;
+    if (videoElement.paused) {
+      videoElement.play().catch(error => console.warn('Error resuming ad:', error));
+    } else {
+      videoElement.pause();
+    }
+  };
+
+  const toggleMute = () => {
+    if (videoElement) videoElement.muted = !videoElement.muted;
+  };
+
+  return (
+    <div className="serika-video-player-ad" role="region" aria-label={t.advertisement}>
+      <video
+        ref={videoRef}
+        className="serika-video-player-ad-video"
+        playsInline
+        onClick={ad?.clickThrough ? onClick : togglePlay}
+      />
+
+      {!ad ? (
+        <div className="serika-video-player-loading">
+          <div className="serika-video-player-spinner"></div>
+        </div>
+      ) : (
+        <>
+          <div className="serika-video-player-ad-badge">
+            <span>{count > 1 ? t.adOfCount.replace('{index}', String(index + 1)).replace('{count}', String(count)) : t.advertisement}</span>
+            <span>{formatTime(Math.max(0, duration - currentTime))}</span>
+          </div>
+
+          {ad.clickThrough && (
+            <button className="serika-video-player-ad-link" onClick={onClick}>
+              {t.learnMore}
+            </button>
+          )}
+
+          {skippableIn !== null && (
+            skippableIn > 0 ? (
+              <div className="serika-video-player-ad-skip serika-video-player-ad-skip-countdown" aria-live="polite">
+                {t.skipAdIn.replace('{seconds}', String(Math.ceil(skippableIn)))}
+              </div>
+            ) : (
+              <button className="serika-video-player-ad-skip" onClick={onSkip}>
+                {t.skipAd}
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z" />
+                </svg>
+              </button>
+            )
+          )}
+
+          <div className="serika-video-player-ad-controls">
+            <button className="serika-video-player-control-button" onClick={togglePlay} aria-label={paused ? t.play : t.pause} title={paused ? t.play : t.pause}>
+              <svg viewBox="0 0 24 24" fill="currentColor">
+                <path d={paused ? 'M8 5v14l11-7z' : 'M6 4h4v16H6V4zm8 0h4v16h-4V4z'} />
+              </svg>
+            </button>
+            <button className="serika-video-player-control-button" onClick={toggleMute} aria-label={muted ? t.unmute : t.mute} title={muted ? t.unmute : t.mute}>
+              <svg viewBox="0 0 24 24" fill="currentColor">
+                <path
+                  d={
+                    muted
+                      ? 'M16.5 12c0-1.77-1.02-3.29-2.5-4.03v2.21l2.45 2.45c.03-.2.05-.41.05-.63zm2.5 0c0 .94-.2 1.82-.54 2.64l1.51 1.51C20.63 14.91 21 13.5 21 12c0-4.28-2.99-7.86-7-8.77v2.06c2.89.86 5 3.54 5 6.71zM4.27 3L3 4.27 7.73 9H3v6h4l5 5v-6.73l4.25 4.25c-.67.52-1.42.93-2.25 1.18v2.06c1.38-.31 2.63-.95 3.69-1.81L19.73 21 21 19.73l-9-9L4.27 3zM12 4L9.91 6.09 12 8.18V4z'
+                      : 'M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02zM14 3.23v2.06c2.89.86 5 3.54 5 6.71s-2.11 5.85-5 6.71v2.06c4.01-.91 7-4.49 7-8.77s-2.99-7.86-7-8.77z'
+                  }
+                />
+              </svg>
+            </button>
+          </div>
+
+          <div className="serika-video-player-ad-progress">
+            <div className="serika-video-player-ad-progress-bar" style={{ width: `${duration > 0 ? (currentTime / duration) * 100 : 0}%` }} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
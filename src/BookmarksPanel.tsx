@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark } from './types';
+import { Translations } from './locales';
+
+interface BookmarksPanelProps {
+  bookmarks: Bookmark[];
+  currentTime: number;
+  t: Translations;
+  formatTime: (seconds: number) => string;
+  onSeek: (time: number) => void;
+  onAdd: () => void;
+  onUpdate: (id: string, note: string) => void;
+  onRemove: (id: string) => void;
+  onImport: (json: string) => number;
+  onExport: () => string;
+  onClose: () => void;
+}
+
+// A bookmark this fresh with no note was just added, so open it for typing
+const NEW_BOOKMARK_MS = 2000;
+
+export const BookmarksPanel: React.FC<BookmarksPanelProps> = ({
+  bookmarks,
+  currentTime,
+  t,
+  formatTime,
+  onSeek,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onImport,
+  onExport,
+  onClose
+}) => {
+  const [editing, setEditing] = useState<{ id: string; note: string } | null>(null);
+  const [importError, setImportError] = useState(false);
+  const seenIdsRef = useRef(new Set<string>());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const fresh = bookmarks.find(
+      bookmark => !seenIdsRef.current.has(bookmark.id) && !bookmark.note && Date.now() - bookmark.createdAt < NEW_BOOKMARK_MS
+    );
+    bookmarks.forEach(bookmark => seenIdsRef.current.add(bookmark.id));
+    if (fresh) setEditing({ id: fresh.id, note: '' });
+  }, [bookmarks]);
+
+  const saveEditing = () => {
+    if (!editing) return;
+    const original = bookmarks.find(bookmark => bookmark.id === editing.id);
+    if (original && original.note !== editing.note.trim()) onUpdate(editing.id, editing.note.trim());
+    setEditing(null);
+  };
+
+  const handleNoteKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      saveEditing();
+    } else if (event.key === 'Escape') {
+      // Cancel the edit without closing the whole panel
+      event.stopPropagation();
+      setEditing(null);
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([onExport()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'bookmarks.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onImport(await file.text());
+      setImportError(false);
+    } catch (error) {
+      console.warn('Error importing bookmarks:', error);
+      setImportError(true);
+    }
+  };
+
+  return (
+    <div
+      className="serika-video-player-bookmarks"
+      role="dialog"
+      aria-label={t.bookmarks}
+      onDoubleClick={e => e.stopPropagation()}
+      onKeyDown={e => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="serika-video-player-bookmarks-header">
+        <h2>{t.bookmarks}</h2>
+        <button className="serika-video-player-bookmarks-text-button" onClick={() => fileInputRef.current?.click()}>
+          {t.importBookmarks}
+        </button>
+        <button className="serika-video-player-bookmarks-text-button" onClick={handleExport} disabled={bookmarks.length === 0}>
+          {t.exportBookmarks}
+        </button>
+        <button className="serika-video-player-control-button" onClick={onClose} aria-label={t.close} title={t.close}>
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+          </svg>
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+      </div>
+
+      {importError && <div className="serika-video-player-bookmarks-error">{t.importBookmarksFailed}</div>}
+
+      <ul className="serika-video-player-bookmarks-list">
+        {bookmarks.length === 0 && <li className="serika-video-player-bookmarks-empty">{t.noBookmarks}</li>}
+        {bookmarks.map(bookmark => (
+          <li key={bookmark.id} className="serika-video-player-bookmarks-item">
+            <button className="serika-video-player-bookmarks-time" onClick={() => onSeek(bookmark.time)}>
+              {formatTime(bookmark.time)}
+            </button>
+
+            {editing?.id === bookmark.id ? (
+              <textarea
+                className="serika-video-player-bookmarks-note-input"
+                value={editing.note}
+                placeholder={t.bookmarkNotePlaceholder}
+                rows={2}
+                autoFocus
+                onChange={e => setEditing({ id: bookmark.id, note: e.target.value })}
+                onKeyDown={handleNoteKeyDown}
+                onBlur={saveEditing}
+              />
+            ) : (
+              <span className="serika-video-player-bookmarks-note">{bookmark.note}</span>
+            )}
+
+            <div className="serika-video-player-bookmarks-actions">
+              <button
+                className="serika-video-player-control-button"
+                onClick={() => setEditing({ id: bookmark.id, note: bookmark.note })}
+                aria-label={t.editBookmark}
+                title={t.editBookmark}
+              >
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04a.996.996 0 0 0 0-1.41l-2.34-2.34a.996.996 0 0 0-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" />
+                </svg>
+              </button>
+              <button
+                className="serika-video-player-control-button"
+                onClick={() => onRemove(bookmark.id)}
+                aria-label={t.deleteBookmark}
+                title={t.deleteBookmark}
+              >
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" />
+                </svg>
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <button className="serika-video-player-up-next-button serika-video-player-bookmarks-add" onClick={onAdd}>
+        {t.addBookmark} · {formatTime(currentTime)}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { DanmakuComment } from './types';
+import { useDanmaku } from './hooks/useDanmaku';
+
+interface DanmakuLayerProps {
+  videoElement: HTMLVideoElement | null;
+  comments: DanmakuComment[];
+  density: number;
+  opacity: number;
+  ownIds?: Set<string>; // the viewer's own comments, always shown and outlined
+}
+
+export const DanmakuLayer: React.FC<DanmakuLayerProps> = ({ videoElement, comments, density, opacity, ownIds }) => {
+  const [layerElement, setLayerElement] = useState<HTMLDivElement | null>(null);
+  const { items, paused, width, fontSize, laneHeight } = useDanmaku(videoElement, layerElement, comments, density, ownIds);
+
+  return (
+    <div
+      ref={setLayerElement}
+      className="serika-video-player-danmaku"
+      style={{
+        opacity,
+        fontSize: `${fontSize}px`,
+        ['--serika-danmaku-width' as any]: `${width}px`
+      }}
+      aria-hidden="true"
+    >
+      {items.map(item => (
+        <span
+          key={item.key}
+          className={`serika-video-player-danmaku-item serika-video-player-danmaku-${item.mode} ${ownIds?.has(item.id) ? 'serika-video-player-danmaku-own' : ''}`}
+          style={{
+            color: item.color,
+            lineHeight: `${laneHeight}px`,
+            [item.mode === 'bottom' ? 'bottom' : 'top']: `${item.lane * laneHeight}px`,
+            animationDuration: `${item.duration}s`,
+            animationDelay: `${item.delay}s`,
+            animationPlayState: paused ? 'paused' : 'running'
+          }}
+        >
+          {item.text}
+        </span>
+      ))}
+    </div>
+  );
+};
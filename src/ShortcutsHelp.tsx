@@ -0,0 +1,148 @@
+import React, { useEffect, useRef } from 'react';
+import { Keymap, KeymapBinding } from './types';
+import { Translations } from './locales';
+import { getEventBinding } from './hooks/useKeyboardShortcuts';
+
+interface ShortcutsHelpProps {
+  keymap: Keymap;
+  t: Translations;
+  onClose: () => void;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  space: 'Space',
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  home: 'Home',
+  end: 'End',
+  escape: 'Esc',
+  enter: 'Enter',
+  ctrl: 'Ctrl',
+  alt: 'Alt',
+  shift: 'Shift',
+  meta: 'Meta'
+};
+
+const DIGITS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+const FOCUSABLE_SELECTOR = 'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+let shortcutsHelpCount = 0;
+
+const formatCombo = (combo: string) => {
+  // A trailing "++" means the key itself is "+"
+  const parts = combo.endsWith('++') ? [...combo.slice(0, -2).split('+'), '+'] : combo.split('+');
+  return parts.filter(Boolean).map(part => KEY_LABELS[part] ?? (part.length === 1 ? part.toUpperCase() : part));
+};
+
+// Combos bound to the same action (or the same custom handler) share a row
+const groupBindings = (keymap: Keymap) => {
+  const groups = new Map<KeymapBinding, string[]>();
+
+  Object.entries(keymap).forEach(([combo, binding]) => {
+    if (!binding) return;
+    groups.set(binding, [...(groups.get(binding) ?? []), combo]);
+  });
+
+  // Ten separate digit keys read better as a range
+  return Array.from(groups.entries()).map(([binding, combos]): [KeymapBinding, string[]] =>
+    DIGITS.every(digit => combos.includes(digit))
+      ? [binding, ['0–9', ...combos.filter(combo => !DIGITS.includes(combo))]]
+      : [binding, combos]
+  );
+};
+
+export const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ keymap, t, onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const titleIdRef = useRef<string | null>(null);
+  if (!titleIdRef.current) titleIdRef.current = `serika-video-player-shortcuts-help-title-${++shortcutsHelpCount}`;
+
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    closeButtonRef.current?.focus();
+
+    return () => {
+      if (previouslyFocused?.isConnected) previouslyFocused.focus();
+    };
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // The key that opened the dialog closes it again
+    if (event.key === 'Escape' || getEventBinding(keymap, event) === 'toggleShortcutsHelp') {
+      event.preventDefault();
+      onClose();
+      return;
+    }
+
+    if (event.key !== 'Tab' || !dialogRef.current) return;
+
+    // Keep focus cycling inside the dialog
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    if (focusable.length === 0) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  const describe = (binding: KeymapBinding) => {
+    if (typeof binding === 'string') return t.shortcutActions[binding] ?? binding;
+    if (typeof binding === 'object') return binding.description ?? t.customAction;
+    return t.customAction;
+  };
+
+  return (
+    <div className="serika-video-player-shortcuts-help" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        className="serika-video-player-shortcuts-help-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleIdRef.current}
+        onClick={e => e.stopPropagation()}
+        onDoubleClick={e => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="serika-video-player-shortcuts-help-header">
+          <h2 id={titleIdRef.current}>{t.shortcutsHelp}</h2>
+          <button
+            ref={closeButtonRef}
+            className="serika-video-player-control-button"
+            onClick={onClose}
+            aria-label={t.close}
+            title={t.close}
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+            </svg>
+          </button>
+        </div>
+        <dl className="serika-video-player-shortcuts-help-list">
+          {groupBindings(keymap).map(([binding, combos], index) => (
+            <div key={index} className="serika-video-player-shortcuts-help-row">
+              <dt>
+                {combos.map(combo => (
+                  <span key={combo} className="serika-video-player-shortcuts-help-combo">
+                    {formatCombo(combo).map((part, partIndex) => (
+                      <kbd key={partIndex}>{part}</kbd>
+                    ))}
+                  </span>
+                ))}
+              </dt>
+              <dd>{describe(binding)}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
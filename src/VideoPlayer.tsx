@@ -1,17 +1,44 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { AudioTrackOption, VideoPlayerProps, VideoPlayerState, ParsedSubtitles } from './types';
-import { parseSubtitles, getCurrentSubtitleCue } from './utils/subtitleParser';
-import { formatTime } from './utils/formatTime';
-import { loadVideo, VideoLoaderResult } from './utils/videoLoader';
+import React, { forwardRef, useRef, useEffect, useLayoutEffect, useMemo, useState, useImperativeHandle } from 'react';
+import { createPortal } from 'react-dom';
+import { DanmakuMode, MiniPlayerCorner, RepeatMode, SegmentType, VideoFilters, VideoFit, VideoPlayerHandle, VideoPlayerProps } from './types';
+import { formatTime, formatTimecode } from './utils/formatTime';
+import { getChapterIndexAtTime } from './utils/chapters';
+import { findThumbnail } from './utils/thumbnails';
+import { findHeatmapPeaks, getHeatmapPath } from './utils/heatmap';
+import { getSharpenKernel, isDefaultVideoFilters, needsSvgFilter, resolveVideoFilters } from './utils/videoFilters';
 import { getTranslation } from './locales';
-import { useCustomTheme } from './hooks/useCustomTheme';
-import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useVideoPlayer, PLAYBACK_RATES, SEEK_STEP_SECONDS } from './hooks/useVideoPlayer';
+import { usePlaylist } from './hooks/usePlaylist';
+import { EQ_FREQUENCIES, EQ_PRESETS } from './hooks/useAudioProcessing';
+import { getSegmentAtTime } from './hooks/useSegments';
+import { ShortcutsHelp } from './ShortcutsHelp';
+import { BookmarksPanel } from './BookmarksPanel';
+import { DanmakuLayer } from './DanmakuLayer';
+import { AdLayer } from './AdLayer';
 import './VideoPlayer.css';
 
-const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
-const SEEK_STEP_SECONDS = 10;
-
-export const VideoPlayer: React.FC<VideoPlayerProps> = ({
+const DEFAULT_THUMBNAIL_WIDTH = 160;
+const SUBTITLE_SCALES = [0.75, 1, 1.25, 1.5, 2];
+
+type CSSVariables = Record<`--${string}`, string | undefined>;
+const ZOOM_LEVELS = [1.25, 1.5];
+const ASPECT_RATIOS = ['16:9', '4:3', '21:9'];
+const VOLUME_BOOSTS = [1, 1.5, 2, 2.5, 3];
+const HEATMAP_WIDTH = 1000;
+const HEATMAP_HEIGHT = 100;
+const BOOKMARK_HOVER_PX = 6;
+const DANMAKU_DENSITIES = [0.25, 0.5, 0.75, 1];
+const DANMAKU_OPACITIES = [0.25, 0.5, 0.75, 0.85, 1];
+const PICTURE_SLIDERS: Array<{ key: keyof VideoFilters; min: number; max: number; step: number }> = [
+  { key: 'brightness', min: 0.5, max: 2, step: 0.05 },
+  { key: 'contrast', min: 0.5, max: 2, step: 0.05 },
+  { key: 'saturation', min: 0, max: 2, step: 0.05 },
+  { key: 'hue', min: -180, max: 180, step: 1 },
+  { key: 'gamma', min: 0.5, max: 2.5, step: 0.05 },
+  { key: 'sharpen', min: 0, max: 1, step: 0.05 }
+];
+
+export const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(({
   src,
   poster,
   width = '100%',
@@ -38,431 +65,256 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   ambient = false,
   ambientIntensity = 0.35,
   ambientBlur = 60,
-  enableKeyboardShortcuts = true
-}) => {
-  const getInitialSubtitleIndex = () => {
-    if (subtitles.length === 0) {
-      return null;
-    }
+  enableKeyboardShortcuts = true,
+  currentTime,
+  playing,
+  volume,
+  playbackRate,
+  selectedSubtitle,
+  selectedQuality,
+  onCurrentTimeChange,
+  onPlayingChange,
+  onVolumeChange,
+  onPlaybackRateChange,
+  onSelectedSubtitleChange,
+  plugins = [],
+  playlist,
+  playlistStartIndex,
+  repeatMode,
+  shuffle,
+  autoAdvance,
+  autoAdvanceDelay,
+  preloadNext,
+  onPlaylistItemChange,
+  chapters: chaptersProp,
+  enableThumbnails,
+  thumbnailsVTT,
+  enableMiniPlayer = false,
+  miniPlayerCorner = 'bottom-right',
+  enablePictureInPicture = true,
+  pictureInPictureMode,
+  onEnterPictureInPicture,
+  onLeavePictureInPicture,
+  resume,
+  persistPreferences,
+  preferencesStorage,
+  preferencesKey,
+  abLoop,
+  onABLoopChange,
+  onABLoopRepeat,
+  frameRate: frameRateProp,
+  timeFormat = 'standard',
+  keymap,
+  keyboardShortcutsScope,
+  gestures,
+  videoFit,
+  zoom,
+  aspectRatio,
+  videoFilters,
+  onVideoFiltersChange,
+  audioProcessing,
+  segments: segmentsProp,
+  autoSkipSegments,
+  onSegmentSkip,
+  heatmap: heatmapProp,
+  enableBookmarks,
+  bookmarks: bookmarksProp,
+  onBookmarksChange,
+  danmaku: danmakuProp,
+  danmakuSettings,
+  onComment,
+  ads,
+  onAdBreakStart,
+  onAdBreakEnd
+}, ref) => {
+  const playlistState = usePlaylist({
+    playlist,
+    startIndex: playlistStartIndex,
+    repeatMode,
+    shuffle,
+    autoAdvance,
+    autoAdvanceDelay,
+    preloadNext,
+    onItemChange: onPlaylistItemChange
+  });
 
-    const defaultTrackIndex = subtitles.findIndex(subtitle => subtitle.default);
-    return defaultTrackIndex >= 0 ? defaultTrackIndex : 0;
+  const currentItem = playlistState.currentItem;
+  const activeSrc = currentItem ? currentItem.src : src;
+  const activePoster = currentItem ? currentItem.poster : poster;
+  const activeSubtitles = currentItem ? currentItem.subtitles ?? [] : subtitles;
+  const activeResume = resume && currentItem?.mediaId
+    ? { ...(resume === true ? {} : resume), mediaId: currentItem.mediaId }
+    : resume;
+
+  const handleEnded = () => {
+    onEnded?.();
+    playlistState.handleEnded();
   };
 
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
+  const {
+    state,
+    actions,
+    api,
+    videoRef,
+    containerRef,
+    videoElement,
+    portalHost,
+    isPictureInPictureSupported,
+    videoLoader,
+    subtitleTracks,
+    currentSubtitleCue,
+    chapters,
+    currentChapterIndex,
+    segments,
+    thumbnails,
+    heatmap,
+    resumeTime,
+    frameRate,
+    keymap: activeKeymap,
+    gesture,
+    videoStyle,
+    videoFilterId,
+    frameAspectRatio,
+    bookmarksEnabled,
+    danmaku,
+    ownDanmakuIds,
+    danmakuEnabled,
+    adBreaks,
+    adVideoRef,
+    adVideoElement,
+    mediaElementKey,
+    bufferedPercent,
+    progressPercent
+  } = useVideoPlayer({
+    src: activeSrc,
+    muted,
+    subtitles: activeSubtitles,
+    theme,
+    customTheme,
+    enableKeyboardShortcuts,
+    onPlay,
+    onPause,
+    onEnded: handleEnded,
+    onTimeUpdate,
+    onLoadedMetadata,
+    onQualityChange,
+    onError,
+    currentTime,
+    playing,
+    volume,
+    playbackRate,
+    selectedSubtitle,
+    selectedQuality,
+    onCurrentTimeChange,
+    onPlayingChange,
+    onVolumeChange,
+    onPlaybackRateChange,
+    onSelectedSubtitleChange,
+    plugins,
+    chapters: chaptersProp,
+    enableThumbnails,
+    thumbnailsVTT,
+    enableMiniPlayer,
+    pictureInPictureMode,
+    onEnterPictureInPicture,
+    onLeavePictureInPicture,
+    resume: activeResume,
+    persistPreferences,
+    preferencesStorage,
+    preferencesKey,
+    abLoop,
+    onABLoopChange,
+    onABLoopRepeat,
+    frameRate: frameRateProp,
+    keymap,
+    keyboardShortcutsScope,
+    gestures,
+    videoFit,
+    zoom,
+    aspectRatio,
+    videoFilters,
+    onVideoFiltersChange,
+    audioProcessing,
+    segments: segmentsProp,
+    autoSkipSegments,
+    onSegmentSkip,
+    heatmap: heatmapProp,
+    enableBookmarks,
+    bookmarks: bookmarksProp,
+    onBookmarksChange,
+    danmaku: danmakuProp,
+    danmakuSettings,
+    onComment,
+    ads,
+    onAdBreakStart,
+    onAdBreakEnd
+  });
+
+  const {
+    togglePlay,
+    toggleMute,
+    setVolume,
+    seekTo,
+    seekBy,
+    toggleFullscreen,
+    setPlaybackRate,
+    selectSubtitle,
+    setQuality,
+    setAudioTrack
+  } = actions;
+
   const progressRef = useRef<HTMLDivElement>(null);
   const volumeRef = useRef<HTMLDivElement>(null);
   const settingsRef = useRef<HTMLDivElement>(null);
-
-  const [state, setState] = useState<VideoPlayerState>({
-    isPlaying: false,
-    currentTime: 0,
-    duration: 0,
-    volume: 1,
-    isMuted: muted,
-    isFullscreen: false,
-    showControls: true,
-    selectedSubtitle: getInitialSubtitleIndex(),
-    buffered: null,
-    playbackRate: 1,
-    availableQualities: [],
-    selectedQuality: 'auto',
-    isLoading: true,
-    error: null,
-    isMiniPlayer: false,
-    showSettings: false,
-    availableAudioTracks: [],
-    selectedAudioTrack: 0
+  const chaptersRef = useRef<HTMLDivElement>(null);
+
+  const [showChapters, setShowChapters] = useState(false);
+  const [showPictureSettings, setShowPictureSettings] = useState(false);
+  const [showEqualizer, setShowEqualizer] = useState(false);
+  const [commentDraft, setCommentDraft] = useState<{ text: string; mode: DanmakuMode; color: string }>({
+    text: '',
+    mode: 'scroll',
+    color: '#ffffff'
   });
+  const [miniCorner, setMiniCorner] = useState<MiniPlayerCorner>(miniPlayerCorner);
+  const [miniDrag, setMiniDrag] = useState<{ left: number; top: number; offsetX: number; offsetY: number } | null>(null);
 
-  const [parsedSubtitles, setParsedSubtitles] = useState<ParsedSubtitles>({});
-  const [hideControlsTimeout, setHideControlsTimeout] = useState<ReturnType<typeof setTimeout> | null>(null);
-  const [videoLoader, setVideoLoader] = useState<VideoLoaderResult | null>(null);
-  const [progressHover, setProgressHover] = useState<{ visible: boolean; x: number; time: number }>({
+  useEffect(() => {
+    setMiniCorner(miniPlayerCorner);
+  }, [miniPlayerCorner]);
+
+  const [progressHover, setProgressHover] = useState<{ visible: boolean; x: number; width: number; time: number }>({
     visible: false,
     x: 0,
+    width: 0,
     time: 0
   });
 
   const t = getTranslation(language);
 
-  useCustomTheme(theme, customTheme, containerRef as unknown as React.RefObject<HTMLElement>);
-
-  useEffect(() => {
-    const video = videoRef.current;
-    if (!video || !src) return;
-
-    setState(prev => ({
-      ...prev,
-      isLoading: true,
-      isPlaying: false,
-      currentTime: 0,
-      duration: 0,
-      error: null
-    }));
-
-    if (!video.paused) {
-      video.pause();
-    }
-
-    if (videoLoader?.cleanup) {
-      videoLoader.cleanup();
-    }
-
-    const timeoutId = setTimeout(() => {
-      loadVideo(video, src)
-        .then(newLoader => {
-          setVideoLoader(newLoader);
-        })
-        .catch(error => {
-          const castedError = error as Error;
-          console.error('Error loading video:', error);
-          setState(prev => ({ ...prev, error: castedError, isLoading: false }));
-          onError?.(castedError);
-          video.src = src;
-        });
-    }, 50);
-
-    return () => {
-      clearTimeout(timeoutId);
-      if (videoLoader?.cleanup) {
-        videoLoader.cleanup();
-      }
-    };
-  }, [src]);
-
-  useEffect(() => {
-    const loadSubtitles = async () => {
-      const newParsedSubtitles: ParsedSubtitles = {};
-
-      for (let i = 0; i < subtitles.length; i++) {
-        const subtitle = subtitles[i];
-        const cues = await parseSubtitles(subtitle.src);
-        newParsedSubtitles[i] = cues;
-      }
-
-      setParsedSubtitles(newParsedSubtitles);
-    };
-
-    if (subtitles.length > 0) {
-      loadSubtitles();
-    }
-  }, [subtitles]);
-
+  // Keep playing across playlist items once the next source is ready
   useEffect(() => {
-    if (!videoLoader || videoLoader.type !== 'hls' || !videoLoader.player) {
-      setState(prev => ({
-        ...prev,
-        availableQualities: [],
-        selectedQuality: 'auto',
-        availableAudioTracks: [],
-        selectedAudioTrack: 0
-      }));
-      return;
-    }
-
-    const hls = videoLoader.player;
-    const events = hls.constructor?.Events ?? {};
-
-    const mapQualityLevels = () => {
-      const levels = (hls.levels || []) as Array<{ height?: number; width?: number; bitrate?: number }>;
-      const mapped = levels.map((level, index) => ({
-        index,
-        height: level.height || 0,
-        width: level.width,
-        bitrate: level.bitrate,
-        label: level.height ? `${level.height}p` : `Level ${index + 1}`
-      }));
-
-      setState(prev => ({
-        ...prev,
-        availableQualities: mapped,
-        selectedQuality: hls.currentLevel === -1 ? 'auto' : String(hls.currentLevel)
-      }));
-    };
-
-    const mapAudioTracks = () => {
-      const tracks = (hls.audioTracks || []) as Array<{ id?: number; name?: string; lang?: string }>;
-      const mapped: AudioTrackOption[] = tracks.map((track, index) => ({
-        id: track.id ?? index,
-        label: track.name || track.lang || `Track ${index + 1}`,
-        language: track.lang
-      }));
-
-      setState(prev => ({
-        ...prev,
-        availableAudioTracks: mapped,
-        selectedAudioTrack: hls.audioTrack ?? 0
-      }));
-    };
+    if (!videoLoader || !playlistState.resumePlayback) return;
 
-    const handleManifestParsed = () => {
-      mapQualityLevels();
-      mapAudioTracks();
-    };
-
-    const handleLevelSwitched = (_event: unknown, data: { level: number }) => {
-      setState(prev => ({ ...prev, selectedQuality: data.level === -1 ? 'auto' : String(data.level) }));
-    };
-
-    const handleAudioSwitching = (_event: unknown, data: { id: number }) => {
-      setState(prev => ({ ...prev, selectedAudioTrack: data.id }));
-    };
-
-    if (events.MANIFEST_PARSED) hls.on(events.MANIFEST_PARSED, handleManifestParsed);
-    if (events.LEVEL_SWITCHED) hls.on(events.LEVEL_SWITCHED, handleLevelSwitched);
-    if (events.AUDIO_TRACKS_UPDATED) hls.on(events.AUDIO_TRACKS_UPDATED, mapAudioTracks);
-    if (events.AUDIO_TRACK_SWITCHED) hls.on(events.AUDIO_TRACK_SWITCHED, handleAudioSwitching);
-
-    mapQualityLevels();
-    mapAudioTracks();
-
-    return () => {
-      if (events.MANIFEST_PARSED) hls.off(events.MANIFEST_PARSED, handleManifestParsed);
-      if (events.LEVEL_SWITCHED) hls.off(events.LEVEL_SWITCHED, handleLevelSwitched);
-      if (events.AUDIO_TRACKS_UPDATED) hls.off(events.AUDIO_TRACKS_UPDATED, mapAudioTracks);
-      if (events.AUDIO_TRACK_SWITCHED) hls.off(events.AUDIO_TRACK_SWITCHED, handleAudioSwitching);
-    };
+    playlistState.clearResumePlayback();
+    actions.play();
   }, [videoLoader]);
 
-  useEffect(() => {
-    const video = videoRef.current;
-    if (!video) return;
-
-    const handleLoadStart = () => setState(prev => ({ ...prev, isLoading: true }));
-    const handleCanPlay = () => setState(prev => ({ ...prev, isLoading: false }));
-
-    const handleLoadedMetadata = () => {
-      setState(prev => ({ ...prev, duration: video.duration, isLoading: false }));
-      onLoadedMetadata?.(video.duration);
-    };
-
-    const handleTimeUpdate = () => {
-      setState(prev => ({
-        ...prev,
-        currentTime: video.currentTime,
-        buffered: video.buffered
-      }));
-      onTimeUpdate?.(video.currentTime);
-    };
-
-    const handlePlay = () => {
-      setState(prev => ({ ...prev, isPlaying: true }));
-      onPlay?.();
-    };
-
-    const handlePause = () => {
-      setState(prev => ({ ...prev, isPlaying: false }));
-      onPause?.();
-    };
-
-    const handleEnded = () => {
-      setState(prev => ({ ...prev, isPlaying: false }));
-      onEnded?.();
-    };
-
-    const handleVolumeChange = () => {
-      setState(prev => ({
-        ...prev,
-        volume: video.volume,
-        isMuted: video.muted
-      }));
-    };
-
-    const handleError = () => {
-      const mediaError = video.error;
-      const err = new Error(mediaError ? `Video error code ${mediaError.code}` : 'Unknown video playback error');
-      setState(prev => ({ ...prev, error: err, isLoading: false }));
-      onError?.(err);
-    };
-
-    video.addEventListener('loadstart', handleLoadStart);
-    video.addEventListener('canplay', handleCanPlay);
-    video.addEventListener('loadedmetadata', handleLoadedMetadata);
-    video.addEventListener('timeupdate', handleTimeUpdate);
-    video.addEventListener('play', handlePlay);
-    video.addEventListener('pause', handlePause);
-    video.addEventListener('ended', handleEnded);
-    video.addEventListener('volumechange', handleVolumeChange);
-    video.addEventListener('error', handleError);
-
-    return () => {
-      video.removeEventListener('loadstart', handleLoadStart);
-      video.removeEventListener('canplay', handleCanPlay);
-      video.removeEventListener('loadedmetadata', handleLoadedMetadata);
-      video.removeEventListener('timeupdate', handleTimeUpdate);
-      video.removeEventListener('play', handlePlay);
-      video.removeEventListener('pause', handlePause);
-      video.removeEventListener('ended', handleEnded);
-      video.removeEventListener('volumechange', handleVolumeChange);
-      video.removeEventListener('error', handleError);
-    };
-  }, [onPlay, onPause, onEnded, onTimeUpdate, onLoadedMetadata, onError]);
-
-  useEffect(() => {
-    const handleFullscreenChange = () => {
-      const isCurrentlyFullscreen = !!(
-        document.fullscreenElement ||
-        (document as any).webkitFullscreenElement ||
-        (document as any).mozFullScreenElement ||
-        (document as any).msFullscreenElement
-      );
-      setState(prev => ({ ...prev, isFullscreen: isCurrentlyFullscreen }));
-    };
-
-    document.addEventListener('fullscreenchange', handleFullscreenChange);
-    document.addEventListener('webkitfullscreenchange', handleFullscreenChange);
-    document.addEventListener('mozfullscreenchange', handleFullscreenChange);
-    document.addEventListener('MSFullscreenChange', handleFullscreenChange);
-
-    return () => {
-      document.removeEventListener('fullscreenchange', handleFullscreenChange);
-      document.removeEventListener('webkitfullscreenchange', handleFullscreenChange);
-      document.removeEventListener('mozfullscreenchange', handleFullscreenChange);
-      document.removeEventListener('MSFullscreenChange', handleFullscreenChange);
-    };
-  }, []);
-
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (settingsRef.current && !settingsRef.current.contains(event.target as Node)) {
-        setState(prev => ({ ...prev, showSettings: false }));
-      }
-    };
-
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
-
-  const resetControlsTimeout = useCallback(() => {
-    if (hideControlsTimeout) {
-      clearTimeout(hideControlsTimeout);
-    }
-
-    setState(prev => ({ ...prev, showControls: true }));
-
-    const timeout = setTimeout(() => {
-      setState(prev => (prev.isPlaying ? { ...prev, showControls: false } : prev));
-    }, 3000);
-
-    setHideControlsTimeout(timeout);
-  }, [hideControlsTimeout]);
-
-  const togglePlay = async () => {
-    const video = videoRef.current;
-    if (!video) return;
-
-    try {
-      if (state.isPlaying) {
-        video.pause();
-      } else if (video.readyState >= 2) {
-        await video.play();
-      } else {
-        const playWhenReady = () => {
-          video.removeEventListener('canplay', playWhenReady);
-          video.play().catch(error => {
-            const castedError = error as Error;
-            console.warn('Play request failed:', error);
-            setState(prev => ({ ...prev, error: castedError }));
-            onError?.(castedError);
-          });
-        };
-        video.addEventListener('canplay', playWhenReady);
+        actions.setShowSettings(false);
       }
-    } catch (error) {
-      const castedError = error as Error;
-      console.warn('Play request failed:', error);
-      setState(prev => ({ ...prev, error: castedError }));
-      onError?.(castedError);
-    }
-  };
-
-  const toggleMute = () => {
-    const video = videoRef.current;
-    if (!video) return;
-    video.muted = !video.muted;
-  };
-
-  const setVolume = (volume: number) => {
-    const video = videoRef.current;
-    if (!video) return;
-    video.volume = Math.max(0, Math.min(1, volume));
-    if (video.volume > 0 && video.muted) {
-      video.muted = false;
-    }
-  };
-
-  const seekTo = (time: number) => {
-    const video = videoRef.current;
-    if (!video) return;
-    video.currentTime = Math.max(0, Math.min(state.duration, time));
-  };
-
-  const seekBy = (seconds: number) => {
-    seekTo(state.currentTime + seconds);
-  };
-
-  const toggleFullscreen = async () => {
-    const container = containerRef.current;
-    if (!container) return;
-
-    try {
-      if (state.isFullscreen) {
-        if (document.exitFullscreen) await document.exitFullscreen();
-        else if ((document as any).webkitExitFullscreen) await (document as any).webkitExitFullscreen();
-        else if ((document as any).mozCancelFullScreen) await (document as any).mozCancelFullScreen();
-        else if ((document as any).msExitFullscreen) await (document as any).msExitFullscreen();
-      } else {
-        if (container.requestFullscreen) await container.requestFullscreen();
-        else if ((container as any).webkitRequestFullscreen) await (container as any).webkitRequestFullscreen();
-        else if ((container as any).mozRequestFullScreen) await (container as any).mozRequestFullScreen();
-        else if ((container as any).msRequestFullscreen) await (container as any).msRequestFullscreen();
+      if (chaptersRef.current && !chaptersRef.current.contains(event.target as Node)) {
+        setShowChapters(false);
       }
-    } catch (error) {
-      console.error('Error toggling fullscreen:', error);
-    }
-  };
-
-  const setPlaybackRate = (rate: number) => {
-    const video = videoRef.current;
-    if (!video) return;
-    video.playbackRate = rate;
-    setState(prev => ({ ...prev, playbackRate: rate }));
-  };
-
-  const toggleSubtitles = () => {
-    setState(prev => ({
-      ...prev,
-      selectedSubtitle: prev.selectedSubtitle === null ? (subtitles.length > 0 ? 0 : null) : null
-    }));
-  };
-
-  const setQuality = (quality: string) => {
-    const hls = videoLoader?.type === 'hls' ? videoLoader.player : null;
-    if (!hls) return;
-
-    if (quality === 'auto') {
-      hls.currentLevel = -1;
-      setState(prev => ({ ...prev, selectedQuality: 'auto' }));
-      return;
-    }
-
-    const levelIndex = Number(quality);
-    if (Number.isNaN(levelIndex)) return;
-
-    hls.currentLevel = levelIndex;
-    setState(prev => ({ ...prev, selectedQuality: String(levelIndex) }));
-    onQualityChange?.(String(levelIndex));
-  };
-
-  const setAudioTrack = (trackId: number) => {
-    const hls = videoLoader?.type === 'hls' ? videoLoader.player : null;
-    if (!hls) return;
+    };
 
-    hls.audioTrack = trackId;
-    setState(prev => ({ ...prev, selectedAudioTrack: trackId }));
-  };
+    // In Document Picture-in-Picture the player lives in the PiP window's document
+    const documents = Array.from(new Set([document, portalHost?.ownerDocument ?? document]));
+    documents.forEach(target => target.addEventListener('mousedown', handleClickOutside));
+    return () => documents.forEach(target => target.removeEventListener('mousedown', handleClickOutside));
+  }, [portalHost, state.isPictureInPicture]);
 
   const getPercentFromPointer = (target: HTMLDivElement, clientX: number) => {
     const rect = target.getBoundingClientRect();
@@ -476,96 +328,205 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const handleProgressMove = (e: React.MouseEvent<HTMLDivElement>) => {
     const percent = getPercentFromPointer(e.currentTarget, e.clientX);
     const rect = e.currentTarget.getBoundingClientRect();
-    setProgressHover({ visible: true, x: e.clientX - rect.left, time: percent * state.duration });
+    setProgressHover({ visible: true, x: e.clientX - rect.left, width: rect.width, time: percent * state.duration });
   };
 
   const handleVolumeClick = (e: React.MouseEvent<HTMLDivElement>) => {
     setVolume(getPercentFromPointer(e.currentTarget, e.clientX));
   };
 
-  const handleMouseMove = () => {
-    resetControlsTimeout();
-  };
+  const handleMiniDragStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest('button')) return;
 
-  const getCurrentSubtitleCueForTime = () => {
-    if (state.selectedSubtitle === null || !parsedSubtitles[state.selectedSubtitle]) {
-      return null;
-    }
+    const miniElement = e.currentTarget.parentElement;
+    if (!miniElement) return;
 
-    return getCurrentSubtitleCue(parsedSubtitles[state.selectedSubtitle], state.currentTime);
+    const rect = miniElement.getBoundingClientRect();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setMiniDrag({ left: rect.left, top: rect.top, offsetX: e.clientX - rect.left, offsetY: e.clientY - rect.top });
   };
 
-  const getBufferedPercent = () => {
-    if (!state.buffered || state.duration === 0) return 0;
+  const handleMiniDragMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!miniDrag) return;
+    setMiniDrag({ ...miniDrag, left: e.clientX - miniDrag.offsetX, top: e.clientY - miniDrag.offsetY });
+  };
 
-    const buffered = state.buffered;
-    for (let i = 0; i < buffered.length; i++) {
-      if (buffered.start(i) <= state.currentTime && state.currentTime <= buffered.end(i)) {
-        return (buffered.end(i) / state.duration) * 100;
-      }
-    }
+  const handleMiniDragEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!miniDrag) return;
 
-    return 0;
+    // Snap to whichever corner the window's centre ended up closest to
+    const miniElement = e.currentTarget.parentElement;
+    const rect = miniElement?.getBoundingClientRect();
+    if (rect) {
+      const vertical = rect.top + rect.height / 2 < window.innerHeight / 2 ? 'top' : 'bottom';
+      const horizontal = rect.left + rect.width / 2 < window.innerWidth / 2 ? 'left' : 'right';
+      setMiniCorner(`${vertical}-${horizontal}` as MiniPlayerCorner);
+    }
+    setMiniDrag(null);
   };
 
-  useKeyboardShortcuts(
-    enableKeyboardShortcuts,
-    {
-      togglePlay,
-      toggleMute,
-      toggleFullscreen,
-      volumeUp: () => setVolume((state.isMuted ? 0 : state.volume) + 0.05),
-      volumeDown: () => setVolume((state.isMuted ? 0 : state.volume) - 0.05),
-      seekForward: (seconds = SEEK_STEP_SECONDS) => seekBy(seconds),
-      seekBackward: (seconds = SEEK_STEP_SECONDS) => seekBy(-seconds),
-      increaseSpeed: () => {
-        const currentIndex = PLAYBACK_RATES.findIndex(rate => rate === state.playbackRate);
-        const nextRate = PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, currentIndex + 1)];
-        setPlaybackRate(nextRate);
-      },
-      decreaseSpeed: () => {
-        const currentIndex = PLAYBACK_RATES.findIndex(rate => rate === state.playbackRate);
-        const nextRate = PLAYBACK_RATES[Math.max(0, currentIndex - 1)];
-        setPlaybackRate(nextRate);
-      },
-      toggleSubtitles
-    },
-    containerRef as React.RefObject<HTMLElement>
-  );
-
-  const currentSubtitleCue = getCurrentSubtitleCueForTime();
+  const pictureFilters = resolveVideoFilters(state.videoFilters);
+  const eqPreset = (Object.keys(EQ_PRESETS) as Array<keyof typeof EQ_PRESETS>).find(
+    preset => EQ_PRESETS[preset].join(',') === state.audioSettings.eq.join(',')
+  ) ?? 'custom';
+
+  // Timecode needs a frame rate, so fall back to plain time until one is known
+  const formatDisplayTime = (seconds: number) =>
+    timeFormat === 'timecode' && frameRate ? formatTimecode(seconds, frameRate) : formatTime(seconds);
+
+  const hoverChapterIndex = getChapterIndexAtTime(chapters, progressHover.time);
+  const hoverChapter = hoverChapterIndex >= 0 ? chapters[hoverChapterIndex] : null;
+  // Peaks widen by a point on each side so a single-point spike still shows up
+  const heatmapPaths = useMemo(() => ({
+    area: getHeatmapPath(heatmap, HEATMAP_WIDTH, HEATMAP_HEIGHT),
+    peaks: findHeatmapPeaks(heatmap).map(([start, end]) =>
+      getHeatmapPath(heatmap, HEATMAP_WIDTH, HEATMAP_HEIGHT, Math.max(0, start - 1), Math.min(heatmap.length - 1, end + 1))
+    )
+  }), [heatmap]);
+
+  // Markers are only a few pixels wide, so show the note of whichever one the pointer is close to
+  const hoverBookmark = progressHover.visible && state.duration > 0
+    ? state.bookmarks.find(
+      bookmark => Math.abs(bookmark.time - progressHover.time) / state.duration * progressHover.width <= BOOKMARK_HOVER_PX
+    ) ?? null
+    : null;
+
+  const hoverSegment = getSegmentAtTime(segments, progressHover.time);
+  const segmentTypes = Array.from(new Set(segments.map(segment => segment.type)));
+  const hoverThumbnail = progressHover.visible ? findThumbnail(thumbnails, progressHover.time) : null;
+  const thumbnailWidth = hoverThumbnail?.width ?? DEFAULT_THUMBNAIL_WIDTH;
+  const thumbnailHeight = hoverThumbnail?.height ?? Math.round(DEFAULT_THUMBNAIL_WIDTH * 9 / 16);
+
+  // Keep the preview inside the player instead of letting it hang off either edge
+  const previewX = hoverThumbnail
+    ? Math.max(thumbnailWidth / 2, Math.min(progressHover.width - thumbnailWidth / 2, progressHover.x))
+    : progressHover.x;
+
+  useImperativeHandle(ref, () => ({
+    play: actions.play,
+    pause: actions.pause,
+    togglePlay,
+    seekTo,
+    seekBy,
+    setVolume,
+    toggleMute,
+    setPlaybackRate,
+    setQuality,
+    setAudioTrack,
+    toggleFullscreen,
+    togglePictureInPicture: actions.togglePictureInPicture,
+    setLoopStart: actions.setLoopStart,
+    setLoopEnd: actions.setLoopEnd,
+    clearLoop: actions.clearLoop,
+    stepFrame: actions.stepFrame,
+    skipSegment: actions.skipSegment,
+    addBookmark: actions.addBookmark,
+    removeBookmark: actions.removeBookmark,
+    importBookmarks: actions.importBookmarks,
+    exportBookmarks: actions.exportBookmarks,
+    skipAd: actions.skipAd,
+    playNext: playlistState.next,
+    playPrevious: playlistState.previous,
+    goToPlaylistItem: playlistState.goTo,
+    getState: () => state,
+    getVideoElement: () => videoElement,
+    getStreamEngine: () => videoLoader
+  }));
+
+  // The portal host lives here unless Document Picture-in-Picture has taken it
+  const portalAnchorRef = useRef<HTMLDivElement>(null);
+  useLayoutEffect(() => {
+    const anchor = portalAnchorRef.current;
+    if (!anchor || !portalHost) return;
+
+    anchor.appendChild(portalHost);
+    return () => portalHost.remove();
+  }, [portalHost]);
+
+  const cssVariables: CSSVariables = {
+    '--serika-border-radius': rounded !== undefined ? (typeof rounded === 'number' ? `${rounded}px` : rounded) : undefined,
+    '--serika-ambient-opacity': ambient ? String(Math.max(0, Math.min(1, ambientIntensity))) : undefined,
+    '--serika-ambient-blur': ambient ? `${Math.max(0, ambientBlur)}px` : undefined,
+    '--serika-subtitle-scale': state.subtitleFontScale !== 1 ? String(state.subtitleFontScale) : undefined
+  };
 
-  return (
+  const player = (
     <div
       ref={containerRef}
-      className={`serika-video-player serika-video-player-${theme} ${state.isFullscreen ? 'serika-video-player-fullscreen' : ''} ${className || ''}`}
+      className={`serika-video-player serika-video-player-${theme} ${state.isFullscreen ? 'serika-video-player-fullscreen' : ''} ${state.zoom > 1 ? 'serika-video-player-zoomed' : ''} ${className || ''}`}
       style={{
         width: typeof width === 'number' ? `${width}px` : width,
         height: typeof height === 'number' ? `${height}px` : height,
-        aspectRatio: height === 'auto' ? '16/9' : undefined,
-        ['--serika-border-radius' as any]: rounded !== undefined ? (typeof rounded === 'number' ? `${rounded}px` : rounded) : undefined,
-        ['--serika-ambient-opacity' as any]: ambient ? String(Math.max(0, Math.min(1, ambientIntensity))) : undefined,
-        ['--serika-ambient-blur' as any]: ambient ? `${Math.max(0, ambientBlur)}px` : undefined,
+        aspectRatio: height === 'auto' ? String(frameAspectRatio ?? 16 / 9) : undefined,
+        ...cssVariables,
         ...style
       }}
-      onMouseMove={handleMouseMove}
-      onMouseLeave={() => state.isPlaying && setState(prev => ({ ...prev, showControls: false }))}
+      onMouseMove={actions.showControls}
+      onMouseLeave={actions.hideControls}
       aria-label={enableKeyboardShortcuts ? t.keyboardShortcuts : undefined}
     >
-      <div className="serika-video-player-video-container" onDoubleClick={toggleFullscreen}>
+      <div
+        className={`serika-video-player-video-container ${state.isMiniPlayer ? `serika-video-player-mini serika-video-player-mini-${miniCorner}` : ''} ${miniDrag ? 'serika-video-player-mini-dragging' : ''}`}
+        style={state.isMiniPlayer && miniDrag ? { left: `${miniDrag.left}px`, top: `${miniDrag.top}px`, right: 'auto', bottom: 'auto' } : undefined}
+        onDoubleClick={toggleFullscreen}
+      >
+        {state.isMiniPlayer && (
+          <div
+            className="serika-video-player-mini-bar"
+            onPointerDown={handleMiniDragStart}
+            onPointerMove={handleMiniDragMove}
+            onPointerUp={handleMiniDragEnd}
+            onPointerCancel={handleMiniDragEnd}
+            onDoubleClick={e => e.stopPropagation()}
+          >
+            <button className="serika-video-player-control-button" onClick={actions.restoreMiniPlayer} aria-label={t.restorePlayer} title={t.restorePlayer}>
+              <RestoreIcon />
+            </button>
+            <button className="serika-video-player-control-button" onClick={actions.closeMiniPlayer} aria-label={t.closeMiniPlayer} title={t.closeMiniPlayer}>
+              <CloseIcon />
+            </button>
+          </div>
+        )}
+
         {ambient && <div className="serika-video-player-ambient" />}
+        {needsSvgFilter(state.videoFilters) && (
+          <svg className="serika-video-player-filter-defs" aria-hidden="true">
+            <filter id={videoFilterId} colorInterpolationFilters="sRGB">
+              <feComponentTransfer>
+                <feFuncR type="gamma" amplitude={1} offset={0} exponent={1 / pictureFilters.gamma} />
+                <feFuncG type="gamma" amplitude={1} offset={0} exponent={1 / pictureFilters.gamma} />
+                <feFuncB type="gamma" amplitude={1} offset={0} exponent={1 / pictureFilters.gamma} />
+              </feComponentTransfer>
+              {pictureFilters.sharpen > 0 && (
+                <feConvolveMatrix order={3} preserveAlpha="true" kernelMatrix={getSharpenKernel(pictureFilters.sharpen)} />
+              )}
+            </filter>
+          </svg>
+        )}
         <video
+          key={mediaElementKey}
           ref={videoRef}
           className="serika-video-player-video-element"
-          poster={poster}
+          style={videoStyle}
+          poster={activePoster}
           autoPlay={autoPlay && !state.isLoading}
-          loop={loop}
+          loop={loop || (playlistState.enabled && playlistState.repeatMode === 'one')}
           muted={state.isMuted}
           preload={preload}
           playsInline
           onClick={togglePlay}
         />
 
+        {danmakuEnabled && state.danmakuSettings.enabled && (
+          <DanmakuLayer
+            videoElement={videoElement}
+            comments={danmaku}
+            density={state.danmakuSettings.density}
+            opacity={state.danmakuSettings.opacity}
+            ownIds={ownDanmakuIds}
+          />
+        )}
+
         {state.isLoading && (
           <div className="serika-video-player-loading">
             <div className="serika-video-player-spinner"></div>
@@ -605,6 +566,100 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
           </div>
         )}
 
+        {gesture?.type === 'seek' && (
+          <div key={gesture.id} className={`serika-video-player-gesture-ripple serika-video-player-gesture-ripple-${gesture.side}`}>
+            <span>{gesture.side === 'left' ? '−' : '+'}{gesture.seconds}s</span>
+          </div>
+        )}
+
+        {gesture && gesture.type !== 'seek' && (
+          <div className="serika-video-player-gesture-indicator">
+            {gesture.type === 'volume' && (
+              <>
+                {gesture.volume === 0 ? <MuteIcon /> : <VolumeIcon />}
+                <div className="serika-video-player-gesture-volume">
+                  <div className="serika-video-player-gesture-volume-bar" style={{ width: `${gesture.volume * 100}%` }} />
+                </div>
+              </>
+            )}
+            {gesture.type === 'scrub' && (
+              <span>
+                {formatDisplayTime(gesture.time)}
+                <span className="serika-video-player-gesture-delta">
+                  {' '}({gesture.delta < 0 ? '−' : '+'}{formatTime(Math.abs(gesture.delta))})
+                </span>
+              </span>
+            )}
+            {gesture.type === 'speed' && <span>{gesture.rate}x ▶▶</span>}
+          </div>
+        )}
+
+        {resumeTime !== null && (
+          <div className="serika-video-player-resume-prompt">
+            <span>{t.resumeFrom.replace('{time}', formatTime(resumeTime))}</span>
+            <div className="serika-video-player-up-next-actions">
+              <button className="serika-video-player-up-next-button" onClick={actions.acceptResume}>
+                {t.resume}
+              </button>
+              <button className="serika-video-player-up-next-button" onClick={actions.dismissResume}>
+                {t.startOver}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {playlistState.countdown !== null && playlistState.nextItem && (
+          <div className="serika-video-player-up-next">
+            <div className="serika-video-player-up-next-label">
+              {t.upNext} · {playlistState.countdown}s
+            </div>
+            {playlistState.nextItem.title && (
+              <div className="serika-video-player-up-next-title">{playlistState.nextItem.title}</div>
+            )}
+            <div className="serika-video-player-up-next-actions">
+              <button className="serika-video-player-up-next-button" onClick={playlistState.next}>
+                {t.playNow}
+              </button>
+              <button className="serika-video-player-up-next-button" onClick={playlistState.cancelCountdown}>
+                {t.cancel}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {state.activeSegment && resumeTime === null && (
+          <button
+            key={state.activeSegment.start}
+            className="serika-video-player-skip-segment"
+            onClick={actions.skipSegment}
+            onDoubleClick={e => e.stopPropagation()}
+          >
+            {t.skipSegment[state.activeSegment.type]}
+          </button>
+        )}
+
+        {bookmarksEnabled && state.showBookmarks && (
+          <BookmarksPanel
+            bookmarks={state.bookmarks}
+            currentTime={state.currentTime}
+            t={t}
+            formatTime={formatDisplayTime}
+            onSeek={seekTo}
+            onAdd={() => actions.addBookmark()}
+            onUpdate={(id, note) => actions.updateBookmark(id, { note })}
+            onRemove={actions.removeBookmark}
+            onImport={json => actions.importBookmarks(json)}
+            onExport={actions.exportBookmarks}
+            onClose={() => actions.setShowBookmarks(false)}
+          />
+        )}
+
+        {plugins.map((plugin, index) => plugin.renderOverlay && (
+          <div key={`plugin-overlay-${index}`} className="serika-video-player-plugin-overlay">
+            {plugin.renderOverlay(api)}
+          </div>
+        ))}
+
         {controls && (
           <div className={`serika-video-player-controls ${!state.showControls ? 'serika-video-player-controls-hidden' : ''}`}>
             <div
@@ -614,22 +669,119 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
               onMouseMove={handleProgressMove}
               onMouseLeave={() => setProgressHover(prev => ({ ...prev, visible: false }))}
             >
-              <div className="serika-video-player-progress-buffer" style={{ width: `${getBufferedPercent()}%` }} />
-              <div className="serika-video-player-progress-bar" style={{ width: `${(state.currentTime / (state.duration || 1)) * 100}%` }}>
+              {heatmap.length > 1 && (
+                <svg
+                  className="serika-video-player-heatmap"
+                  viewBox={`0 0 ${HEATMAP_WIDTH} ${HEATMAP_HEIGHT}`}
+                  preserveAspectRatio="none"
+                  aria-hidden="true"
+                >
+                  <path className="serika-video-player-heatmap-area" d={heatmapPaths.area} />
+                  {heatmapPaths.peaks.map(path => (
+                    <path key={path} className="serika-video-player-heatmap-peak" d={path} />
+                  ))}
+                </svg>
+              )}
+              <div className="serika-video-player-progress-buffer" style={{ width: `${bufferedPercent}%` }} />
+              {state.abLoop && state.duration > 0 && (
+                <div
+                  className={`serika-video-player-progress-loop ${state.abLoop.end === null ? 'serika-video-player-progress-loop-pending' : ''}`}
+                  style={{
+                    left: `${(state.abLoop.start / state.duration) * 100}%`,
+                    width: state.abLoop.end !== null ? `${((state.abLoop.end - state.abLoop.start) / state.duration) * 100}%` : undefined
+                  }}
+                />
+              )}
+              {state.duration > 0 && segments.map(segment => (
+                <div
+                  key={`segment-${segment.start}`}
+                  className={`serika-video-player-progress-segment serika-video-player-progress-segment-${segment.type}`}
+                  style={{
+                    left: `${(segment.start / state.duration) * 100}%`,
+                    width: `${((Math.min(segment.end, state.duration) - segment.start) / state.duration) * 100}%`
+                  }}
+                />
+              ))}
+              <div className="serika-video-player-progress-bar" style={{ width: `${progressPercent}%` }}>
                 <div className="serika-video-player-progress-handle" />
               </div>
+              {state.duration > 0 && chapters.slice(1).map(chapter => (
+                <div
+                  key={`chapter-gap-${chapter.startTime}`}
+                  className="serika-video-player-progress-chapter-gap"
+                  style={{ left: `${(chapter.startTime / state.duration) * 100}%` }}
+                />
+              ))}
+              {state.duration > 0 && adBreaks.map(adBreak => adBreak.time !== null && adBreak.time > 0 && adBreak.time < state.duration && (
+                <div
+                  key={adBreak.id}
+                  className={`serika-video-player-progress-ad ${adBreak.played ? 'serika-video-player-progress-ad-played' : ''}`}
+                  style={{ left: `${(adBreak.time / state.duration) * 100}%` }}
+                />
+              ))}
+              {bookmarksEnabled && state.duration > 0 && state.bookmarks.map(bookmark => (
+                <div
+                  key={bookmark.id}
+                  className="serika-video-player-progress-bookmark"
+                  style={{ left: `${Math.min(100, (bookmark.time / state.duration) * 100)}%` }}
+                  onClick={e => {
+                    e.stopPropagation();
+                    seekTo(bookmark.time);
+                  }}
+                />
+              ))}
+              {hoverThumbnail && (
+                <div
+                  className="serika-video-player-progress-thumbnail"
+                  style={{
+                    left: `${previewX}px`,
+                    width: `${thumbnailWidth}px`,
+                    height: `${thumbnailHeight}px`,
+                    backgroundImage: `url("${hoverThumbnail.url}")`,
+                    backgroundPosition: hoverThumbnail.x !== undefined ? `-${hoverThumbnail.x}px -${hoverThumbnail.y ?? 0}px` : 'center',
+                    backgroundSize: hoverThumbnail.x !== undefined ? 'auto' : 'cover'
+                  }}
+                />
+              )}
               {progressHover.visible && (
-                <div className="serika-video-player-progress-tooltip" style={{ left: `${progressHover.x}px` }}>
-                  {formatTime(progressHover.time)}
+                <div className="serika-video-player-progress-tooltip" style={{ left: `${previewX}px` }}>
+                  {hoverChapter && <span className="serika-video-player-progress-tooltip-chapter">{hoverChapter.title}</span>}
+                  {hoverSegment && <span className="serika-video-player-progress-tooltip-chapter">{t.segmentNames[hoverSegment.type]}</span>}
+                  {hoverBookmark?.note && <span className="serika-video-player-progress-tooltip-bookmark">{hoverBookmark.note}</span>}
+                  {formatDisplayTime(progressHover.time)}
                 </div>
               )}
             </div>
 
             <div className="serika-video-player-controls-row">
+              {playlistState.enabled && (
+                <button
+                  className="serika-video-player-control-button"
+                  onClick={playlistState.previous}
+                  disabled={!playlistState.hasPrevious}
+                  aria-label={t.previous}
+                  title={t.previous}
+                >
+                  <PreviousIcon />
+                </button>
+              )}
+
               <button className="serika-video-player-control-button serika-video-player-play-button" onClick={togglePlay} aria-label={state.isPlaying ? t.pause : t.play}>
                 {state.isPlaying ? <PauseIcon /> : <PlayIcon />}
               </button>
 
+              {playlistState.enabled && (
+                <button
+                  className="serika-video-player-control-button"
+                  onClick={playlistState.next}
+                  disabled={!playlistState.hasNext}
+                  aria-label={t.next}
+                  title={t.next}
+                >
+                  <NextIcon />
+                </button>
+              )}
+
               <button className="serika-video-player-control-button" onClick={() => seekBy(-SEEK_STEP_SECONDS)} aria-label={t.skipBackward} title={t.skipBackward}>
                 <BackIcon />
               </button>
@@ -647,16 +799,124 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
                 </div>
               </div>
 
-              <div className="serika-video-player-time-display">
-                <span>{formatTime(state.currentTime)}</span>
+              <div className={`serika-video-player-time-display ${timeFormat === 'timecode' ? 'serika-video-player-time-display-timecode' : ''}`}>
+                <span>{formatDisplayTime(state.currentTime)}</span>
                 <span>/</span>
-                <span>{formatTime(state.duration)}</span>
+                <span>{formatDisplayTime(state.duration)}</span>
               </div>
 
+              {danmakuEnabled && onComment && state.danmakuSettings.enabled && (
+                <form
+                  className="serika-video-player-danmaku-form"
+                  onSubmit={e => {
+                    e.preventDefault();
+                    const color = commentDraft.color.toLowerCase() === '#ffffff' ? undefined : commentDraft.color;
+                    if (actions.postComment(commentDraft.text, { mode: commentDraft.mode, color })) {
+                      setCommentDraft(prev => ({ ...prev, text: '' }));
+                    }
+                  }}
+                >
+                  <select
+                    value={commentDraft.mode}
+                    onChange={e => setCommentDraft(prev => ({ ...prev, mode: e.target.value as DanmakuMode }))}
+                    className="serika-video-player-settings-select"
+                    aria-label={t.commentMode}
+                  >
+                    <option value="scroll">{t.commentScroll}</option>
+                    <option value="top">{t.commentTop}</option>
+                    <option value="bottom">{t.commentBottom}</option>
+                  </select>
+                  <input
+                    type="color"
+                    value={commentDraft.color}
+                    onChange={e => setCommentDraft(prev => ({ ...prev, color: e.target.value }))}
+                    aria-label={t.commentColor}
+                    title={t.commentColor}
+                  />
+                  <input
+                    type="text"
+                    value={commentDraft.text}
+                    onChange={e => setCommentDraft(prev => ({ ...prev, text: e.target.value }))}
+                    onKeyDown={e => {
+                      if (e.key === 'Escape') e.currentTarget.blur();
+                    }}
+                    placeholder={t.commentPlaceholder}
+                    maxLength={100}
+                    aria-label={t.commentPlaceholder}
+                  />
+                  <button type="submit" className="serika-video-player-up-next-button" disabled={!commentDraft.text.trim()}>
+                    {t.sendComment}
+                  </button>
+                </form>
+              )}
+
               <div style={{ flex: 1 }} />
 
+              {danmakuEnabled && (
+                <button
+                  className="serika-video-player-control-button"
+                  onClick={actions.toggleDanmaku}
+                  aria-label={state.danmakuSettings.enabled ? t.hideComments : t.showComments}
+                  aria-pressed={state.danmakuSettings.enabled}
+                  title={state.danmakuSettings.enabled ? t.hideComments : t.showComments}
+                >
+                  {state.danmakuSettings.enabled ? <DanmakuIcon /> : <DanmakuOffIcon />}
+                </button>
+              )}
+
+              {plugins.map((plugin, index) => plugin.renderControlBar && (
+                <React.Fragment key={`plugin-controls-${index}`}>
+                  {plugin.renderControlBar(api)}
+                </React.Fragment>
+              ))}
+
+              {bookmarksEnabled && (
+                <button
+                  className="serika-video-player-control-button"
+                  onClick={() => {
+                    actions.addBookmark();
+                    actions.setShowBookmarks(true);
+                  }}
+                  aria-label={t.addBookmark}
+                  title={t.addBookmark}
+                >
+                  <BookmarkIcon />
+                </button>
+              )}
+
+              {chapters.length > 0 && (
+                <div className="serika-video-player-settings-container" ref={chaptersRef}>
+                  <button
+                    className="serika-video-player-control-button"
+                    onClick={() => setShowChapters(prev => !prev)}
+                    aria-label={t.chapters}
+                    title={t.chapters}
+                  >
+                    <ChaptersIcon />
+                  </button>
+
+                  {showChapters && (
+                    <div className="serika-video-player-settings-menu serika-video-player-chapters-menu">
+                      {chapters.map((chapter, index) => (
+                        <button
+                          key={`chapter-${chapter.startTime}`}
+                          className={`serika-video-player-chapters-item ${index === currentChapterIndex ? 'serika-video-player-chapters-item-active' : ''}`}
+                          onClick={() => {
+                            actions.seekToChapter(index);
+                            setShowChapters(false);
+                          }}
+                        >
+                          <span>{chapter.title}</span>
+                          <span className="serika-video-player-chapters-item-time">{formatTime(chapter.startTime)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="serika-video-player-settings-container" ref={settingsRef}>
-                <button className="serika-video-player-control-button" onClick={() => setState(prev => ({ ...prev, showSettings: !prev.showSettings }))} aria-label={t.settings}>
+                <button className="serika-video-player-control-button" onClick={actions.toggleSettings} aria-label={t.settings}>
                   <SettingsIcon />
                 </button>
 
@@ -706,35 +966,386 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
                       </div>
                     )}
 
+                    {state.isAudioProcessingAvailable && (
+                      <>
+                        <label className="serika-video-player-picture-slider">
+                          <span>{t.balance}</span>
+                          <input
+                            type="range"
+                            min={-1}
+                            max={1}
+                            step={0.1}
+                            value={state.audioSettings.balance}
+                            onChange={e => actions.setAudioSettings({ balance: parseFloat(e.target.value) })}
+                            onDoubleClick={() => actions.setAudioSettings({ balance: 0 })}
+                          />
+                          <span className="serika-video-player-picture-value">
+                            {state.audioSettings.balance === 0
+                              ? '0'
+                              : `${state.audioSettings.balance < 0 ? 'L' : 'R'} ${Math.round(Math.abs(state.audioSettings.balance) * 100)}`}
+                          </span>
+                        </label>
+
+                        <div className="serika-video-player-settings-item">
+                          <span>{t.monoAudio}</span>
+                          <select
+                            value={state.audioSettings.mono ? 'on' : 'off'}
+                            onChange={e => actions.setAudioSettings({ mono: e.target.value === 'on' })}
+                            className="serika-video-player-settings-select"
+                          >
+                            <option value="off">{t.off}</option>
+                            <option value="on">{t.on}</option>
+                          </select>
+                        </div>
+
+                        <div className="serika-video-player-settings-item">
+                          <span>{t.swapChannels}</span>
+                          <select
+                            value={state.audioSettings.swapChannels ? 'on' : 'off'}
+                            onChange={e => actions.setAudioSettings({ swapChannels: e.target.value === 'on' })}
+                            className="serika-video-player-settings-select"
+                            disabled={state.audioSettings.mono}
+                          >
+                            <option value="off">{t.off}</option>
+                            <option value="on">{t.on}</option>
+                          </select>
+                        </div>
+
+                        <div className="serika-video-player-settings-item">
+                          <span>{t.muteChannel}</span>
+                          <select
+                            value={state.audioSettings.mutedChannel ?? 'none'}
+                            onChange={e =>
+                              actions.setAudioSettings({
+                                mutedChannel: e.target.value === 'none' ? null : (e.target.value as 'left' | 'right')
+                              })
+                            }
+                            className="serika-video-player-settings-select"
+                          >
+                            <option value="none">{t.off}</option>
+                            <option value="left">{t.leftChannel}</option>
+                            <option value="right">{t.rightChannel}</option>
+                          </select>
+                        </div>
+                      </>
+                    )}
+
                     <div className="serika-video-player-settings-item">
                       <span>{t.subtitles}</span>
                       <select
                         value={state.selectedSubtitle ?? -1}
-                        onChange={e => setState(prev => ({ ...prev, selectedSubtitle: e.target.value === '-1' ? null : parseInt(e.target.value, 10) }))}
+                        onChange={e => selectSubtitle(e.target.value === '-1' ? null : parseInt(e.target.value, 10))}
                         className="serika-video-player-settings-select"
                       >
                         <option value={-1}>{t.noSubtitles}</option>
-                        {subtitles.map((subtitle, index) => (
+                        {subtitleTracks.map((subtitle, index) => (
                           <option key={subtitle.src + subtitle.label} value={index}>
                             {subtitle.label}
                           </option>
                         ))}
                       </select>
                     </div>
+
+                    {subtitleTracks.length > 0 && (
+                      <div className="serika-video-player-settings-item">
+                        <span>{t.subtitleSize}</span>
+                        <select
+                          value={state.subtitleFontScale}
+                          onChange={e => actions.setSubtitleFontScale(parseFloat(e.target.value))}
+                          className="serika-video-player-settings-select"
+                        >
+                          {SUBTITLE_SCALES.map(scale => (
+                            <option key={scale} value={scale}>{Math.round(scale * 100)}%</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    <div className="serika-video-player-settings-item">
+                      <span>{t.displayMode}</span>
+                      <select
+                        value={state.zoom !== 1 ? `zoom-${state.zoom}` : state.videoFit}
+                        onChange={e => {
+                          const { value } = e.target;
+                          if (value.startsWith('zoom-')) {
+                            actions.setVideoFit('contain');
+                            actions.setZoom(parseFloat(value.slice(5)));
+                          } else {
+                            actions.setZoom(1);
+                            actions.setVideoFit(value as VideoFit);
+                          }
+                        }}
+                        className="serika-video-player-settings-select"
+                      >
+                        <option value="contain">{t.fitContain}</option>
+                        <option value="cover">{t.fitCover}</option>
+                        <option value="fill">{t.fitFill}</option>
+                        {(ZOOM_LEVELS.includes(state.zoom) || state.zoom === 1 ? ZOOM_LEVELS : [...ZOOM_LEVELS, state.zoom]).map(level => (
+                          <option key={level} value={`zoom-${level}`}>{t.zoom} {Math.round(level * 100)}%</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="serika-video-player-settings-item">
+                      <span>{t.aspectRatio}</span>
+                      <select
+                        value={state.aspectRatio}
+                        onChange={e => actions.setAspectRatio(e.target.value)}
+                        className="serika-video-player-settings-select"
+                      >
+                        <option value="auto">{t.auto}</option>
+                        {(state.aspectRatio === 'auto' || ASPECT_RATIOS.includes(state.aspectRatio) ? ASPECT_RATIOS : [...ASPECT_RATIOS, state.aspectRatio]).map(ratio => (
+                          <option key={ratio} value={ratio}>{ratio}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="serika-video-player-settings-item">
+                      <span>{t.picture}</span>
+                      <button
+                        className="serika-video-player-settings-toggle"
+                        onClick={() => setShowPictureSettings(prev => !prev)}
+                        aria-expanded={showPictureSettings}
+                      >
+                        {showPictureSettings ? '▾' : '▸'}
+                      </button>
+                    </div>
+
+                    {showPictureSettings && (
+                      <div className="serika-video-player-picture-settings">
+                        {PICTURE_SLIDERS.map(({ key, min, max, step }) => (
+                          <label key={key} className="serika-video-player-picture-slider">
+                            <span>{t[key]}</span>
+                            <input
+                              type="range"
+                              min={min}
+                              max={max}
+                              step={step}
+                              value={pictureFilters[key]}
+                              onChange={e => actions.setVideoFilters({ [key]: parseFloat(e.target.value) })}
+                            />
+                            <span className="serika-video-player-picture-value">
+                              {key === 'hue' ? `${pictureFilters[key]}°` : pictureFilters[key].toFixed(2)}
+                            </span>
+                          </label>
+                        ))}
+                        <button
+                          className="serika-video-player-up-next-button"
+                          onClick={actions.resetVideoFilters}
+                          disabled={isDefaultVideoFilters(state.videoFilters)}
+                        >
+                          {t.reset}
+                        </button>
+                      </div>
+                    )}
+
+                    {state.isAudioProcessingAvailable && (
+                      <>
+                        <div className="serika-video-player-settings-item">
+                          <span>{t.volumeBoost}</span>
+                          <select
+                            value={state.audioSettings.boost}
+                            onChange={e => actions.setAudioSettings({ boost: parseFloat(e.target.value) })}
+                            className="serika-video-player-settings-select"
+                          >
+                            {VOLUME_BOOSTS.map(boost => (
+                              <option key={boost} value={boost}>{Math.round(boost * 100)}%</option>
+                            ))}
+                          </select>
+                        </div>
+
+                        <div className="serika-video-player-settings-item">
+                          <span>{t.nightMode}</span>
+                          <select
+                            value={state.audioSettings.nightMode ? 'on' : 'off'}
+                            onChange={e => actions.setAudioSettings({ nightMode: e.target.value === 'on' })}
+                            className="serika-video-player-settings-select"
+                          >
+                            <option value="off">{t.off}</option>
+                            <option value="on">{t.on}</option>
+                          </select>
+                        </div>
+
+                        <div className="serika-video-player-settings-item">
+                          <span>{t.equalizer}</span>
+                          <button
+                            className="serika-video-player-settings-toggle"
+                            onClick={() => setShowEqualizer(prev => !prev)}
+                            aria-expanded={showEqualizer}
+                          >
+                            {showEqualizer ? '▾' : '▸'}
+                          </button>
+                        </div>
+
+                        {showEqualizer && (
+                          <div className="serika-video-player-picture-settings">
+                            <select
+                              value={eqPreset}
+                              onChange={e => {
+                                const preset = e.target.value as keyof typeof EQ_PRESETS | 'custom';
+                                if (preset !== 'custom') actions.setAudioSettings({ eq: EQ_PRESETS[preset] });
+                              }}
+                              className="serika-video-player-settings-select"
+                              aria-label={t.equalizer}
+                            >
+                              <option value="flat">{t.eqFlat}</option>
+                              <option value="dialogue">{t.eqDialogue}</option>
+                              {eqPreset === 'custom' && <option value="custom">{t.eqCustom}</option>}
+                            </select>
+                            {EQ_FREQUENCIES.map((frequency, index) => (
+                              <label key={frequency} className="serika-video-player-picture-slider">
+                                <span>{frequency >= 1000 ? `${frequency / 1000} kHz` : `${frequency} Hz`}</span>
+                                <input
+                                  type="range"
+                                  min={-12}
+                                  max={12}
+                                  step={1}
+                                  value={state.audioSettings.eq[index] ?? 0}
+                                  onChange={e => {
+                                    const eq = [...state.audioSettings.eq];
+                                    eq[index] = parseFloat(e.target.value);
+                                    actions.setAudioSettings({ eq });
+                                  }}
+                                />
+                                <span className="serika-video-player-picture-value">
+                                  {(state.audioSettings.eq[index] ?? 0) > 0 ? '+' : ''}{state.audioSettings.eq[index] ?? 0} dB
+                                </span>
+                              </label>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
+
+                    {playlistState.enabled && (
+                      <div className="serika-video-player-settings-item">
+                        <span>{t.repeat}</span>
+                        <select
+                          value={playlistState.repeatMode}
+                          onChange={e => playlistState.setRepeatMode(e.target.value as RepeatMode)}
+                          className="serika-video-player-settings-select"
+                        >
+                          <option value="off">{t.off}</option>
+                          <option value="one">{t.repeatOne}</option>
+                          <option value="all">{t.repeatAll}</option>
+                        </select>
+                      </div>
+                    )}
+
+                    {playlistState.enabled && (
+                      <div className="serika-video-player-settings-item">
+                        <span>{t.shuffle}</span>
+                        <select
+                          value={playlistState.shuffle ? 'on' : 'off'}
+                          onChange={e => playlistState.setShuffle(e.target.value === 'on')}
+                          className="serika-video-player-settings-select"
+                        >
+                          <option value="off">{t.off}</option>
+                          <option value="on">{t.on}</option>
+                        </select>
+                      </div>
+                    )}
+
+                    {danmakuEnabled && (
+                      <>
+                        <div className="serika-video-player-settings-item">
+                          <span>{t.commentDensity}</span>
+                          <select
+                            value={state.danmakuSettings.density}
+                            onChange={e => actions.setDanmakuSettings({ density: parseFloat(e.target.value) })}
+                            className="serika-video-player-settings-select"
+                          >
+                            {DANMAKU_DENSITIES.map(density => (
+                              <option key={density} value={density}>{Math.round(density * 100)}%</option>
+                            ))}
+                          </select>
+                        </div>
+
+                        <div className="serika-video-player-settings-item">
+                          <span>{t.commentOpacity}</span>
+                          <select
+                            value={state.danmakuSettings.opacity}
+                            onChange={e => actions.setDanmakuSettings({ opacity: parseFloat(e.target.value) })}
+                            className="serika-video-player-settings-select"
+                          >
+                            {DANMAKU_OPACITIES.map(opacity => (
+                              <option key={opacity} value={opacity}>{Math.round(opacity * 100)}%</option>
+                            ))}
+                          </select>
+                        </div>
+                      </>
+                    )}
+
+                    {segmentTypes.map((type: SegmentType) => (
+                      <div key={`auto-skip-${type}`} className="serika-video-player-settings-item">
+                        <span>{t.autoSkipSegment[type]}</span>
+                        <select
+                          value={state.autoSkipSegments.includes(type) ? 'on' : 'off'}
+                          onChange={e => actions.setAutoSkipSegment(type, e.target.value === 'on')}
+                          className="serika-video-player-settings-select"
+                        >
+                          <option value="off">{t.off}</option>
+                          <option value="on">{t.on}</option>
+                        </select>
+                      </div>
+                    ))}
+
+                    {plugins.map((plugin, index) => plugin.renderSettingsMenu && (
+                      <React.Fragment key={`plugin-settings-${index}`}>
+                        {plugin.renderSettingsMenu(api)}
+                      </React.Fragment>
+                    ))}
                   </div>
                 )}
               </div>
 
+              {enablePictureInPicture && isPictureInPictureSupported && (
+                <button
+                  className="serika-video-player-control-button"
+                  onClick={actions.togglePictureInPicture}
+                  aria-label={state.isPictureInPicture ? t.exitPictureInPicture : t.pictureInPicture}
+                  title={state.isPictureInPicture ? t.exitPictureInPicture : t.pictureInPicture}
+                >
+                  <PictureInPictureIcon />
+                </button>
+              )}
+
               <button className="serika-video-player-control-button" onClick={toggleFullscreen} aria-label={state.isFullscreen ? t.exitFullscreen : t.fullscreen}>
                 {state.isFullscreen ? <ExitFullscreenIcon /> : <FullscreenIcon />}
               </button>
             </div>
           </div>
         )}
+
+        {state.ad && (
+          <AdLayer
+            playback={state.ad}
+            videoRef={adVideoRef}
+            videoElement={adVideoElement}
+            t={t}
+            onSkip={actions.skipAd}
+            onClick={actions.clickAd}
+          />
+        )}
       </div>
+
+      {state.showShortcutsHelp && (
+        <ShortcutsHelp keymap={activeKeymap} t={t} onClose={() => actions.setShowShortcutsHelp(false)} />
+      )}
     </div>
   );
-};
+
+  if (!portalHost) return player;
+
+  return (
+    <>
+      <div ref={portalAnchorRef} className="serika-video-player-portal" />
+      {createPortal(player, portalHost)}
+    </>
+  );
+});
+
+VideoPlayer.displayName = 'VideoPlayer';
 
 const PlayIcon = () => (
   <svg viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
@@ -760,6 +1371,33 @@ const SettingsIcon = () => (
 const BackIcon = () => (
   <svg viewBox="0 0 24 24"><path d="M11 18V6l-8.5 6L11 18zm1-6l8.5 6V6L12 12z" /></svg>
 );
+const PictureInPictureIcon = () => (
+  <svg viewBox="0 0 24 24"><path d="M19 11h-8v6h8v-6zm4 8V4.98C23 3.88 22.1 3 21 3H3c-1.1 0-2 .88-2 1.98V19c0 1.1.9 2 2 2h18c1.1 0 2-.9 2-2zm-2 .02H3V4.97h18v14.05z" /></svg>
+);
+const RestoreIcon = () => (
+  <svg viewBox="0 0 24 24"><path d="M19 7h-8v6h8V7zm2-4H3c-1.1 0-2 .9-2 2v14c0 1.1.9 1.98 2 1.98h18c1.1 0 2-.88 2-1.98V5c0-1.1-.9-2-2-2zm0 16.01H3V4.98h18v14.03z" /></svg>
+);
+const CloseIcon = () => (
+  <svg viewBox="0 0 24 24"><path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" /></svg>
+);
+const ChaptersIcon = () => (
+  <svg viewBox="0 0 24 24"><path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z" /></svg>
+);
+const BookmarkIcon = () => (
+  <svg viewBox="0 0 24 24"><path d="M17 11v6.97l-5-2.14-5 2.14V5h6V3H7c-1.1 0-2 .9-2 2v16l7-3 7 3V11h-2zm4-4h-2v2h-2V7h-2V5h2V3h2v2h2v2z" /></svg>
+);
+const DanmakuIcon = () => (
+  <svg viewBox="0 0 24 24"><path d="M20 2H4c-1.1 0-2 .9-2 2v18l4-4h14c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2zM6 9h12v2H6V9zm8 5H6v-2h8v2zm4-6H6V6h12v2z" /></svg>
+);
+const DanmakuOffIcon = () => (
+  <svg viewBox="0 0 24 24"><path d="M20 4v12H5.17L4 17.17V4h16m0-2H4c-1.1 0-1.99.9-1.99 2L2 22l4-4h14c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2z" /></svg>
+);
+const PreviousIcon = () => (
+  <svg viewBox="0 0 24 24"><path d="M6 6h2v12H6zm3.5 6l8.5 6V6z" /></svg>
+);
+const NextIcon = () => (
+  <svg viewBox="0 0 24 24"><path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z" /></svg>
+);
 const ForwardIcon = () => (
   <svg viewBox="0 0 24 24"><path d="M13 6v12l8.5-6L13 6zm-1 6L3.5 6v12L12 12z" /></svg>
 );
@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+import { ABLoopOptions, ABLoopRegion } from '../types';
+
+export const useABLoop = (
+  videoElement: HTMLVideoElement | null,
+  options: ABLoopOptions = {},
+  changeRate: (rate: number) => void,
+  onChange?: (region: ABLoopRegion | null) => void,
+  onRepeat?: (repeatCount: number) => void
+) => {
+  const [region, setRegion] = useState<ABLoopRegion | null>(null);
+  const regionRef = useRef<ABLoopRegion | null>(null);
+  const baseRateRef = useRef<number | null>(null);
+  const latestRef = useRef({ options, changeRate, onChange, onRepeat });
+  latestRef.current = { options, changeRate, onChange, onRepeat };
+
+  const updateRegion = (next: ABLoopRegion | null) => {
+    // Put the original speed back once a slowed-down loop is over
+    if (!next && baseRateRef.current !== null) {
+      latestRef.current.changeRate(baseRateRef.current);
+      baseRateRef.current = null;
+    }
+
+    regionRef.current = next;
+    setRegion(next);
+    latestRef.current.onChange?.(next);
+  };
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    const handleTimeUpdate = () => {
+      const current = regionRef.current;
+      if (!current || current.end === null || video.currentTime < current.end) return;
+
+      const { maxRepeats, slowdownStep = 0, minRate = 0.25 } = latestRef.current.options;
+      if (maxRepeats !== undefined && current.repeatCount >= maxRepeats) {
+        updateRegion(null);
+        return;
+      }
+
+      video.currentTime = current.start;
+
+      if (slowdownStep > 0) {
+        if (baseRateRef.current === null) baseRateRef.current = video.playbackRate;
+        latestRef.current.changeRate(Math.max(minRate, video.playbackRate - slowdownStep));
+      }
+
+      const next = { ...current, repeatCount: current.repeatCount + 1 };
+      regionRef.current = next;
+      setRegion(next);
+      latestRef.current.onRepeat?.(next.repeatCount);
+    };
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    return () => video.removeEventListener('timeupdate', handleTimeUpdate);
+  }, [videoElement]);
+
+  // A fresh source invalidates any region from the previous one
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    const handleEmptied = () => {
+      if (regionRef.current) updateRegion(null);
+    };
+
+    video.addEventListener('emptied', handleEmptied);
+    return () => video.removeEventListener('emptied', handleEmptied);
+  }, [videoElement]);
+
+  const setLoopStart = (time?: number) => {
+    const start = time ?? videoElement?.currentTime ?? 0;
+    const current = regionRef.current;
+    const end = current?.end !== null && current?.end !== undefined && current.end > start ? current.end : null;
+    updateRegion({ start, end, repeatCount: 0 });
+  };
+
+  const setLoopEnd = (time?: number) => {
+    const end = time ?? videoElement?.currentTime ?? 0;
+    const current = regionRef.current;
+    const start = current ? current.start : 0;
+    if (end === start) return;
+    updateRegion(end > start ? { start, end, repeatCount: 0 } : { start: end, end: start, repeatCount: 0 });
+  };
+
+  const clearLoop = () => {
+    if (regionRef.current) updateRegion(null);
+  };
+
+  return { region, setLoopStart, setLoopEnd, clearLoop };
+};
@@ -0,0 +1,407 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AdBreak, AdBreakSource, AdPlayback, AdsOptions, VastAd, VastTrackingEvent } from '../types';
+import {
+  defaultAdFetcher,
+  fireTracking,
+  loadVAST,
+  loadVMAP,
+  resolveAdBreakTime,
+  selectMediaFile,
+  VAST_ERROR_CODES,
+  VastMacros
+} from '../utils/vast';
+import { useStableValue } from './useStableValue';
+
+// timeupdate fires every ~250ms, so a break this close ahead counts as reached
+const BREAK_TOLERANCE_SECONDS = 0.25;
+
+const QUARTILES: Array<[number, VastTrackingEvent]> = [
+  [0.25, 'firstQuartile'],
+  [0.5, 'midpoint'],
+  [0.75, 'thirdQuartile']
+];
+
+// Events an ad may report any number of times; the rest go out once per ad
+const REPEATABLE_EVENTS: VastTrackingEvent[] = ['pause', 'resume', 'mute', 'unmute', 'click'];
+
+export interface AdHandlers {
+  pauseContent: () => void; // remember how the content was playing and pause it
+  resumeContent: (ended: boolean) => void; // put the content back as it was, or finish it after a post-roll
+  onAdBreakStart?: (adBreak: AdBreak) => void;
+  onAdBreakEnd?: (adBreak: AdBreak) => void;
+}
+
+interface AdSession {
+  adBreak: AdBreak;
+  postroll: boolean;
+  contentTime: number;
+  ads: VastAd[];
+  index: number;
+  mediaUrl?: string;
+  fired: Set<VastTrackingEvent>;
+}
+
+// A pre-roll always plays first; of several mid-rolls jumped over, only the latest one does
+const getDueBreaks = (adBreaks: AdBreak[], time: number): AdBreak[] => {
+  const due = adBreaks.filter(
+    adBreak => !adBreak.played && adBreak.offset !== 'end' && adBreak.time !== null && adBreak.time <= time + BREAK_TOLERANCE_SECONDS
+  );
+  const preroll = due.find(adBreak => adBreak.time === 0);
+  return preroll ? [preroll] : due;
+};
+
+export const useAds = (
+  videoElement: HTMLVideoElement | null,
+  src: string | undefined,
+  duration: number,
+  options: AdsOptions | undefined,
+  handlers: AdHandlers
+) => {
+  const [adVideoElement, setAdVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [vmapBreaks, setVmapBreaks] = useState<AdBreakSource[]>([]);
+  const [playedIds, setPlayedIds] = useState<Set<string>>(() => new Set());
+  const [playback, setPlayback] = useState<AdPlayback | null>(null);
+  const adVideoElementRef = useRef<HTMLVideoElement | null>(null);
+  const sessionRef = useRef<AdSession | null>(null);
+
+  const adVideoRef = useCallback((node: HTMLVideoElement | null) => {
+    adVideoElementRef.current = node;
+    setAdVideoElement(node);
+  }, []);
+
+  const breaks = useStableValue(options?.breaks);
+  const adBreaks = useMemo<AdBreak[]>(
+    () =>
+      [...(breaks ?? []), ...vmapBreaks]
+        .map((source, index) => {
+          const id = source.id ?? `break-${index}`;
+          return {
+            id,
+            offset: source.offset,
+            vast: source.vast,
+            time: resolveAdBreakTime(source.offset, duration),
+            played: playedIds.has(id)
+          };
+        })
+        .sort((a, b) => (a.time ?? Infinity) - (b.time ?? Infinity)),
+    [breaks, vmapBreaks, duration, playedIds]
+  );
+
+  const latestRef = useRef({ adBreaks, options, handlers });
+  latestRef.current = { adBreaks, options, handlers };
+
+  // Everything below may run from listeners registered renders ago, so it only goes through refs
+
+  const getFetcher = () => latestRef.current.options?.fetcher ?? defaultAdFetcher;
+
+  const track = (event: VastTrackingEvent, macros?: VastMacros) => {
+    const session = sessionRef.current;
+    const ad = session?.ads[session.index];
+    if (!session || !ad) return;
+
+    if (!REPEATABLE_EVENTS.includes(event)) {
+      if (session.fired.has(event)) return;
+      session.fired.add(event);
+    }
+
+    fireTracking(ad.tracking[event], getFetcher(), {
+      CONTENTPLAYHEAD: session.contentTime,
+      ADPLAYHEAD: adVideoElementRef.current?.currentTime,
+      ASSETURI: session.mediaUrl,
+      ...macros
+    });
+  };
+
+  const endBreak = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    sessionRef.current = null;
+    setPlayback(null);
+    latestRef.current.handlers.onAdBreakEnd?.(session.adBreak);
+    latestRef.current.handlers.resumeContent(session.postroll);
+  };
+
+  const playAd = (index: number) => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    const ad = session.ads[index];
+    if (!ad) {
+      endBreak();
+      return;
+    }
+
+    session.index = index;
+    session.mediaUrl = undefined;
+    session.fired = new Set();
+    setPlayback({
+      adBreak: session.adBreak,
+      ad,
+      index,
+      count: session.ads.length,
+      currentTime: 0,
+      duration: ad.duration,
+      skippableIn: ad.skipOffset,
+      paused: false,
+      muted: false
+    });
+  };
+
+  const startBreak = async (due: AdBreak[], postroll: boolean, contentTime: number) => {
+    const adBreak = { ...due[due.length - 1], played: true };
+    const session: AdSession = { adBreak, postroll, contentTime, ads: [], index: 0, fired: new Set() };
+    sessionRef.current = session;
+
+    setPlayedIds(prev => {
+      const next = new Set(prev);
+      due.forEach(item => next.add(item.id));
+      return next;
+    });
+    latestRef.current.handlers.pauseContent();
+    latestRef.current.handlers.onAdBreakStart?.(adBreak);
+    setPlayback({
+      adBreak,
+      ad: null,
+      index: 0,
+      count: 0,
+      currentTime: 0,
+      duration: 0,
+      skippableIn: null,
+      paused: false,
+      muted: false
+    });
+
+    const ads = await loadVAST(adBreak.vast, getFetcher(), latestRef.current.options?.maxWrapperDepth);
+    if (sessionRef.current !== session) return;
+
+    session.ads = ads;
+    playAd(0);
+  };
+
+  useEffect(() => {
+    const vmap = options?.vmap;
+    if (!vmap) {
+      setVmapBreaks(prev => (prev.length > 0 ? [] : prev));
+      return;
+    }
+
+    let cancelled = false;
+    loadVMAP(vmap, getFetcher()).then(breaks => {
+      if (!cancelled) {
+        setVmapBreaks(breaks);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [options?.vmap]);
+
+  // A new source starts the schedule over, and a break still playing for the old one is dropped
+  useEffect(() => {
+    setPlayedIds(prev => (prev.size > 0 ? new Set() : prev));
+    if (sessionRef.current) {
+      sessionRef.current = null;
+      setPlayback(null);
+    }
+  }, [src]);
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    const checkBreaks = () => {
+      if (sessionRef.current || video.paused || video.seeking) return;
+
+      const due = getDueBreaks(latestRef.current.adBreaks, video.currentTime);
+      if (due.length > 0) startBreak(due, false, video.currentTime);
+    };
+
+    const handlePlay = () => {
+      // Nothing plays the content during a break, whether the keyboard, media keys or a controlled prop
+      if (sessionRef.current) {
+        video.pause();
+      } else {
+        checkBreaks();
+      }
+    };
+
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('timeupdate', checkBreaks);
+    video.addEventListener('seeked', checkBreaks);
+
+    return () => {
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('timeupdate', checkBreaks);
+      video.removeEventListener('seeked', checkBreaks);
+    };
+  }, [videoElement]);
+
+  const adKey = playback?.ad ? `${playback.adBreak.id}-${playback.index}` : null;
+
+  useEffect(() => {
+    const adVideo = adVideoElement;
+    const session = sessionRef.current;
+    const ad = session?.ads[session.index];
+    if (!adVideo || !session || !ad || !adKey) return;
+
+    const index = session.index;
+    const mediaFile = selectMediaFile(ad.mediaFiles, type => adVideo.canPlayType(type) !== '', adVideo.clientWidth);
+    if (!mediaFile) {
+      track('error', { ERRORCODE: VAST_ERROR_CODES.noSupportedMedia });
+      playAd(index + 1);
+      return;
+    }
+
+    session.mediaUrl = mediaFile.url;
+    if (videoElement) {
+      adVideo.volume = videoElement.volume;
+      adVideo.muted = videoElement.muted;
+    }
+    adVideo.src = mediaFile.url;
+
+    adVideo
+      .play()
+      .catch(() => {
+        // Sound may be refused outside a user gesture, but muted playback is allowed
+        adVideo.muted = true;
+        return adVideo.play();
+      })
+      .catch(error => {
+        if (sessionRef.current !== session || session.index !== index) return;
+        console.warn('Error playing ad:', error);
+        track('error', { ERRORCODE: VAST_ERROR_CODES.mediaPlayback });
+        playAd(index + 1);
+      });
+  }, [adVideoElement, adKey]);
+
+  useEffect(() => {
+    const adVideo = adVideoElement;
+    if (!adVideo) return;
+
+    let wasMuted = adVideo.muted;
+
+    const update = () => {
+      const session = sessionRef.current;
+      const ad = session?.ads[session.index];
+      if (!ad) return null;
+
+      const adDuration = isFinite(adVideo.duration) && adVideo.duration > 0 ? adVideo.duration : ad.duration;
+      setPlayback(prev =>
+        prev?.ad === ad
+          ? {
+              ...prev,
+              currentTime: adVideo.currentTime,
+              duration: adDuration,
+              skippableIn: ad.skipOffset === null ? null : Math.max(0, ad.skipOffset - adVideo.currentTime),
+              paused: adVideo.paused,
+              muted: adVideo.muted
+            }
+          : prev
+      );
+      return adDuration;
+    };
+
+    const hasStarted = () => !!sessionRef.current?.fired.has('start');
+
+    const handleTimeUpdate = () => {
+      const adDuration = update();
+      if (!adDuration || !hasStarted()) return;
+
+      QUARTILES.forEach(([fraction, event]) => {
+        if (adVideo.currentTime >= adDuration * fraction) track(event);
+      });
+    };
+
+    const handlePlaying = () => {
+      update();
+      track('impression');
+      track('creativeView');
+      track('start');
+    };
+
+    const handlePlay = () => {
+      update();
+      if (hasStarted()) track('resume');
+    };
+
+    const handlePause = () => {
+      update();
+      // Reaching the end pauses the element too, which isn't a pause to report
+      if (hasStarted() && !adVideo.ended) track('pause');
+    };
+
+    const handleVolumeChange = () => {
+      update();
+      if (adVideo.muted !== wasMuted && hasStarted()) track(adVideo.muted ? 'mute' : 'unmute');
+      wasMuted = adVideo.muted;
+    };
+
+    const handleEnded = () => {
+      const session = sessionRef.current;
+      if (!session) return;
+      track('complete');
+      playAd(session.index + 1);
+    };
+
+    const handleError = () => {
+      const session = sessionRef.current;
+      if (!session || !session.mediaUrl) return;
+      console.warn('Error playing ad:', adVideo.error);
+      track('error', { ERRORCODE: VAST_ERROR_CODES.mediaPlayback });
+      playAd(session.index + 1);
+    };
+
+    adVideo.addEventListener('timeupdate', handleTimeUpdate);
+    adVideo.addEventListener('playing', handlePlaying);
+    adVideo.addEventListener('play', handlePlay);
+    adVideo.addEventListener('pause', handlePause);
+    adVideo.addEventListener('volumechange', handleVolumeChange);
+    adVideo.addEventListener('ended', handleEnded);
+    adVideo.addEventListener('error', handleError);
+
+    return () => {
+      adVideo.removeEventListener('timeupdate', handleTimeUpdate);
+      adVideo.removeEventListener('playing', handlePlaying);
+      adVideo.removeEventListener('play', handlePlay);
+      adVideo.removeEventListener('pause', handlePause);
+      adVideo.removeEventListener('volumechange', handleVolumeChange);
+      adVideo.removeEventListener('ended', handleEnded);
+      adVideo.removeEventListener('error', handleError);
+    };
+  }, [adVideoElement]);
+
+  // Called when the content ends; true means a post-roll is playing and the end is reported after it
+  const startPostroll = useCallback(() => {
+    if (sessionRef.current) return false;
+
+    const postroll = latestRef.current.adBreaks.find(adBreak => adBreak.offset === 'end' && !adBreak.played);
+    if (!postroll) return false;
+
+    startBreak([postroll], true, postroll.time ?? 0);
+    return true;
+  }, []);
+
+  const skipAd = () => {
+    const session = sessionRef.current;
+    const ad = session?.ads[session.index];
+    const adVideo = adVideoElementRef.current;
+    if (!session || !ad || !adVideo || ad.skipOffset === null || adVideo.currentTime < ad.skipOffset) return;
+
+    track('skip');
+    playAd(session.index + 1);
+  };
+
+  const clickAd = () => {
+    const session = sessionRef.current;
+    const ad = session?.ads[session.index];
+    if (!ad?.clickThrough) return;
+
+    track('click');
+    window.open(ad.clickThrough, '_blank', 'noopener');
+    adVideoElementRef.current?.pause();
+  };
+
+  return { adBreaks, playback, adVideoRef, adVideoElement, startPostroll, skipAd, clickAd };
+};
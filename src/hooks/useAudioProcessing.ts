@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from 'react';
+import { AudioSettings } from '../types';
+
+export const EQ_FREQUENCIES = [60, 230, 910, 3600, 14000];
+export const MAX_VOLUME_BOOST = 3;
+
+export const EQ_PRESETS: Record<'flat' | 'dialogue', number[]> = {
+  flat: [0, 0, 0, 0, 0],
+  // Pull back rumble and music beds, lift the speech band
+  dialogue: [-6, -2, 2, 5, 1]
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  boost: 1,
+  nightMode: false,
+  eq: EQ_PRESETS.flat,
+  balance: 0,
+  mono: false,
+  swapChannels: false,
+  mutedChannel: null
+};
+
+interface AudioGraph {
+  context: AudioContext;
+  gain: GainNode;
+  compressor: DynamicsCompressorNode;
+  bands: BiquadFilterNode[];
+  // How much of each input channel reaches each output: [L<-L, L<-R, R<-L, R<-R]
+  channelMatrix: GainNode[];
+}
+
+// Mono, swap, balance and per-channel mute all reduce to one 2x2 mixing matrix
+export const getChannelMatrix = (settings: AudioSettings): number[] => {
+  let matrix = settings.mono ? [0.5, 0.5, 0.5, 0.5] : [1, 0, 0, 1];
+  if (settings.swapChannels && !settings.mono) matrix = [0, 1, 1, 0];
+
+  const balance = Math.max(-1, Math.min(1, settings.balance));
+  const leftLevel = settings.mutedChannel === 'left' ? 0 : Math.min(1, 1 - balance);
+  const rightLevel = settings.mutedChannel === 'right' ? 0 : Math.min(1, 1 + balance);
+
+  return [matrix[0] * leftLevel, matrix[1] * leftLevel, matrix[2] * rightLevel, matrix[3] * rightLevel];
+};
+
+// createMediaElementSource works once per element, so the graph outlives remounts
+const graphs = new WeakMap<HTMLMediaElement, AudioGraph>();
+
+const getAudioContextClass = (): typeof AudioContext | undefined =>
+  typeof window === 'undefined' ? undefined : window.AudioContext ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+
+// Cross-origin media without CORS plays fine natively but comes out of Web Audio as silence
+export const isMediaTainted = (media: HTMLMediaElement): boolean => {
+  const source = media.currentSrc || media.src;
+  if (!source || source.startsWith('blob:') || source.startsWith('data:')) return false;
+  if (media.crossOrigin !== null) return false;
+
+  try {
+    return new URL(source, window.location.href).origin !== window.location.origin;
+  } catch {
+    return true;
+  }
+};
+
+// Such an element can't go back to the native output, so a tainted source needs a fresh one
+export const isRoutedThroughWebAudio = (media: HTMLMediaElement): boolean => graphs.has(media);
+
+const createGraph = (media: HTMLMediaElement): AudioGraph | null => {
+  const AudioContextClass = getAudioContextClass();
+  if (!AudioContextClass) return null;
+
+  const context = new AudioContextClass();
+  const source = context.createMediaElementSource(media);
+  const gain = context.createGain();
+  const compressor = context.createDynamicsCompressor();
+  const bands = EQ_FREQUENCIES.map((frequency, index) => {
+    const band = context.createBiquadFilter();
+    band.type = index === 0 ? 'lowshelf' : index === EQ_FREQUENCIES.length - 1 ? 'highshelf' : 'peaking';
+    band.frequency.value = frequency;
+    band.Q.value = 1;
+    return band;
+  });
+
+  const splitter = context.createChannelSplitter(2);
+  // Spread mono sources over both inputs instead of leaving the right one silent
+  splitter.channelInterpretation = 'speakers';
+  const merger = context.createChannelMerger(2);
+  const channelMatrix = [0, 1, 2, 3].map(index => {
+    const node = context.createGain();
+    splitter.connect(node, index % 2);
+    node.connect(merger, 0, Math.floor(index / 2));
+    return node;
+  });
+
+  // source -> gain -> compressor -> EQ bands -> channel matrix -> speakers
+  const chain: AudioNode[] = [source, gain, compressor, ...bands, splitter];
+  chain.slice(1).forEach((node, index) => chain[index].connect(node));
+  merger.connect(context.destination);
+
+  const graph = { context, gain, compressor, bands, channelMatrix };
+  graphs.set(media, graph);
+  return graph;
+};
+
+const applySettings = (graph: AudioGraph, settings: AudioSettings) => {
+  const { context, gain, compressor, bands, channelMatrix } = graph;
+  const now = context.currentTime;
+
+  gain.gain.setTargetAtTime(Math.max(0, Math.min(MAX_VOLUME_BOOST, settings.boost)), now, 0.02);
+
+  // Night mode squeezes the dynamic range; otherwise the compressor only catches clipping from the boost
+  compressor.threshold.setValueAtTime(settings.nightMode ? -45 : -3, now);
+  compressor.knee.setValueAtTime(settings.nightMode ? 30 : 0, now);
+  compressor.ratio.setValueAtTime(settings.nightMode ? 12 : 20, now);
+  compressor.attack.setValueAtTime(settings.nightMode ? 0.005 : 0.001, now);
+  compressor.release.setValueAtTime(0.25, now);
+
+  bands.forEach((band, index) => {
+    band.gain.setTargetAtTime(settings.eq[index] ?? 0, now, 0.02);
+  });
+
+  getChannelMatrix(settings).forEach((level, index) => {
+    channelMatrix[index].gain.setTargetAtTime(level, now, 0.02);
+  });
+};
+
+export const useAudioProcessing = (
+  videoElement: HTMLVideoElement | null,
+  enabled: boolean,
+  settings: AudioSettings
+) => {
+  const [graph, setGraph] = useState<AudioGraph | null>(null);
+  const [isTainted, setIsTainted] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video || !enabled) return;
+
+    const existing = graphs.get(video) ?? null;
+    setGraph(existing);
+    if (existing) applySettings(existing, settingsRef.current);
+
+    // Browsers only let an AudioContext start after a user gesture, so build the graph on play
+    const handlePlay = () => {
+      const tainted = isMediaTainted(video);
+      setIsTainted(tainted);
+
+      let current = graphs.get(video) ?? null;
+      if (!current) {
+        if (tainted) return;
+        try {
+          current = createGraph(video);
+        } catch {
+          setHasFailed(true);
+          return;
+        }
+        if (!current) return;
+        applySettings(current, settingsRef.current);
+        setGraph(current);
+      }
+
+      if (current.context.state === 'suspended') {
+        current.context.resume().catch(() => {});
+      }
+    };
+
+    video.addEventListener('play', handlePlay);
+    if (!video.paused) handlePlay();
+
+    return () => video.removeEventListener('play', handlePlay);
+  }, [videoElement, enabled]);
+
+  // currentSrc is only final once the new source has loaded
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    const checkSource = () => setIsTainted(isMediaTainted(video));
+    checkSource();
+    video.addEventListener('loadedmetadata', checkSource);
+    return () => video.removeEventListener('loadedmetadata', checkSource);
+  }, [videoElement]);
+
+  useEffect(() => {
+    if (graph && enabled) applySettings(graph, settings);
+  }, [
+    graph,
+    enabled,
+    settings.boost,
+    settings.nightMode,
+    settings.eq.join(','),
+    settings.balance,
+    settings.mono,
+    settings.swapChannels,
+    settings.mutedChannel
+  ]);
+
+  // Once routed through Web Audio the element stays there, so "off" means a neutral graph
+  useEffect(() => {
+    if (graph && !enabled) applySettings(graph, DEFAULT_AUDIO_SETTINGS);
+  }, [graph, enabled]);
+
+  return {
+    // Tainted sources are left on the native output, so the controls would do nothing
+    isAvailable: enabled && !!getAudioContextClass() && !isTainted && !hasFailed,
+    isActive: !!graph && enabled
+  };
+};
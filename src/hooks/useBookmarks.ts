@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from 'react';
+import { Bookmark } from '../types';
+import { createBookmarkId, mergeBookmarks, parseBookmarks, serializeBookmarks, sortBookmarks } from '../utils/bookmarks';
+
+export const useBookmarks = (
+  src: string | undefined,
+  controlledBookmarks: Bookmark[] | undefined,
+  onChange?: (bookmarks: Bookmark[]) => void
+) => {
+  const [localBookmarks, setLocalBookmarks] = useState<Bookmark[]>([]);
+  const bookmarks = controlledBookmarks ?? localBookmarks;
+
+  // Several edits in one tick (e.g. an import right after an add) build on each other
+  const bookmarksRef = useRef(bookmarks);
+  bookmarksRef.current = bookmarks;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // Uncontrolled bookmarks belong to the video they were made on
+  useEffect(() => {
+    if (controlledBookmarks === undefined) setLocalBookmarks([]);
+  }, [src]);
+
+  const commit = (next: Bookmark[]) => {
+    const sorted = sortBookmarks(next);
+    bookmarksRef.current = sorted;
+    if (controlledBookmarks === undefined) setLocalBookmarks(sorted);
+    onChangeRef.current?.(sorted);
+  };
+
+  const addBookmark = (time: number, note = ''): Bookmark => {
+    const bookmark: Bookmark = { id: createBookmarkId(), time: Math.max(0, time), note, createdAt: Date.now() };
+    commit([...bookmarksRef.current, bookmark]);
+    return bookmark;
+  };
+
+  const updateBookmark = (id: string, patch: Partial<Pick<Bookmark, 'time' | 'note'>>) => {
+    if (!bookmarksRef.current.some(bookmark => bookmark.id === id)) return;
+    commit(bookmarksRef.current.map(bookmark => (bookmark.id === id ? { ...bookmark, ...patch } : bookmark)));
+  };
+
+  const removeBookmark = (id: string) => {
+    if (!bookmarksRef.current.some(bookmark => bookmark.id === id)) return;
+    commit(bookmarksRef.current.filter(bookmark => bookmark.id !== id));
+  };
+
+  // Throws on malformed JSON so callers can tell the viewer; returns how many were read
+  const importBookmarks = (json: string, replace = false): number => {
+    const incoming = parseBookmarks(json);
+    commit(replace ? incoming : mergeBookmarks(bookmarksRef.current, incoming));
+    return incoming.length;
+  };
+
+  const exportBookmarks = () => serializeBookmarks(bookmarksRef.current);
+
+  return { bookmarks, addBookmark, updateBookmark, removeBookmark, importBookmarks, exportBookmarks };
+};
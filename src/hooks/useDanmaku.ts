@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { DanmakuComment } from '../types';
+import { DanmakuItem, getDanmakuDuration, layoutDanmaku } from '../utils/danmaku';
+
+// Mount comments a little early so they slide in from the edge instead of popping up mid-screen
+const LOOKAHEAD_SECONDS = 0.5;
+
+export interface VisibleDanmaku extends DanmakuItem {
+  key: string;
+  delay: number; // seconds of wall-clock time, negative when the comment is already under way
+  duration: number; // seconds of wall-clock time at the current playback rate
+}
+
+interface DanmakuClock {
+  time: number;
+  rate: number;
+  paused: boolean;
+  generation: number; // bumped whenever running animations no longer match the video
+}
+
+export const useDanmaku = (
+  videoElement: HTMLVideoElement | null,
+  layerElement: HTMLElement | null,
+  comments: DanmakuComment[],
+  density: number, // share of the height that comments may use, 0-1
+  pinnedIds?: Set<string>
+) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [clock, setClock] = useState<DanmakuClock>({ time: 0, rate: 1, paused: true, generation: 0 });
+  const delaysRef = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    const layer = layerElement;
+    if (!layer || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+
+    observer.observe(layer);
+    return () => observer.disconnect();
+  }, [layerElement]);
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    let stalled = false;
+    const read = (resync: boolean) => {
+      setClock(prev => ({
+        time: video.currentTime,
+        rate: video.playbackRate || 1,
+        paused: video.paused || stalled,
+        generation: resync ? prev.generation + 1 : prev.generation
+      }));
+    };
+
+    const handleTimeUpdate = () => read(false);
+    const handleResync = () => read(true);
+    const handleWaiting = () => {
+      stalled = true;
+      read(true);
+    };
+    const handlePlaying = () => {
+      stalled = false;
+      read(true);
+    };
+
+    read(true);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('seeked', handleResync);
+    video.addEventListener('ratechange', handleResync);
+    video.addEventListener('pause', handleResync);
+    video.addEventListener('play', handleResync);
+    video.addEventListener('waiting', handleWaiting);
+    video.addEventListener('playing', handlePlaying);
+
+    return () => {
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('seeked', handleResync);
+      video.removeEventListener('ratechange', handleResync);
+      video.removeEventListener('pause', handleResync);
+      video.removeEventListener('play', handleResync);
+      video.removeEventListener('waiting', handleWaiting);
+      video.removeEventListener('playing', handlePlaying);
+    };
+  }, [videoElement]);
+
+  const fontSize = Math.round(Math.max(14, Math.min(28, size.height / 20)));
+  const laneHeight = Math.round(fontSize * 1.3);
+  const laneCount = Math.floor((size.height * Math.max(0, Math.min(1, density))) / laneHeight);
+
+  const items = useMemo(
+    () => layoutDanmaku(comments, { width: size.width, laneCount, fontSize, pinnedIds }),
+    [comments, size.width, laneCount, fontSize, pinnedIds]
+  );
+
+  // Running animations keep their own timing, so a delay is fixed the first time an item mounts
+  const generationRef = useRef(clock.generation);
+  if (generationRef.current !== clock.generation) {
+    generationRef.current = clock.generation;
+    delaysRef.current.clear();
+  }
+
+  const now = videoElement?.currentTime ?? clock.time;
+  const visible: VisibleDanmaku[] = [];
+
+  items.forEach(item => {
+    const length = getDanmakuDuration(item.mode);
+    if (item.time > now + LOOKAHEAD_SECONDS || item.time + length <= now) return;
+
+    const key = `${item.id}-${clock.generation}`;
+    if (!delaysRef.current.has(key)) delaysRef.current.set(key, (item.time - now) / clock.rate);
+    visible.push({ ...item, key, delay: delaysRef.current.get(key) as number, duration: length / clock.rate });
+  });
+
+  // Forget delays of items that have left the screen
+  if (delaysRef.current.size > visible.length * 2 + 32) {
+    const keys = new Set(visible.map(item => item.key));
+    delaysRef.current.forEach((_, key) => {
+      if (!keys.has(key)) delaysRef.current.delete(key);
+    });
+  }
+
+  return { items: visible, paused: clock.paused, width: size.width, fontSize, laneHeight };
+};
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60];
+const SAMPLE_FRAMES = 30;
+
+interface FrameMetadata {
+  mediaTime: number;
+  presentedFrames: number;
+}
+
+// Not every browser has the frame callback API yet
+type FrameCallbackVideo = Omit<HTMLVideoElement, 'requestVideoFrameCallback' | 'cancelVideoFrameCallback'> & {
+  requestVideoFrameCallback?: (callback: (now: number, metadata: FrameMetadata) => void) => number;
+  cancelVideoFrameCallback?: (handle: number) => void;
+};
+
+// Measured rates jitter, so settle on the closest standard rate when one is near enough
+const snapFrameRate = (measured: number) => {
+  const closest = COMMON_FRAME_RATES.reduce((best, rate) =>
+    Math.abs(rate - measured) < Math.abs(best - measured) ? rate : best
+  );
+  return Math.abs(closest - measured) / closest < 0.05 ? closest : Math.round(measured * 100) / 100;
+};
+
+export const useFrameRate = (videoElement: HTMLVideoElement | null, src: string | undefined, frameRate?: number) => {
+  const [detectedFrameRate, setDetectedFrameRate] = useState<number | null>(null);
+
+  useEffect(() => {
+    setDetectedFrameRate(null);
+
+    const video: FrameCallbackVideo | null = videoElement;
+    const requestFrame = video?.requestVideoFrameCallback?.bind(video);
+    if (frameRate || !video || !requestFrame) return;
+
+    let callbackId: number | null = null;
+    let first: FrameMetadata | null = null;
+
+    const handleFrame = (_now: number, metadata: FrameMetadata) => {
+      callbackId = null;
+
+      if (!first) {
+        first = metadata;
+      } else if (metadata.presentedFrames - first.presentedFrames >= SAMPLE_FRAMES) {
+        const mediaDuration = metadata.mediaTime - first.mediaTime;
+        const frames = metadata.presentedFrames - first.presentedFrames;
+
+        // Seeks and dropped frames throw the sample off, start over when it looks wrong
+        if (mediaDuration > 0 && frames / mediaDuration < 240) {
+          setDetectedFrameRate(snapFrameRate(frames / mediaDuration));
+          return;
+        }
+        first = metadata;
+      }
+
+      callbackId = requestFrame(handleFrame);
+    };
+
+    const handleSeeking = () => {
+      first = null;
+    };
+
+    callbackId = requestFrame(handleFrame);
+    video.addEventListener('seeking', handleSeeking);
+
+    return () => {
+      if (callbackId !== null) video.cancelVideoFrameCallback?.(callbackId);
+      video.removeEventListener('seeking', handleSeeking);
+    };
+  }, [videoElement, src, frameRate]);
+
+  return frameRate || detectedFrameRate;
+};
@@ -0,0 +1,301 @@
+import { useEffect, useRef, useState } from 'react';
+import { GestureFeedback, GestureOptions } from '../types';
+
+const DOUBLE_TAP_MS = 300;
+const LONG_PRESS_MS = 500;
+const MOVE_THRESHOLD_PX = 12;
+const FEEDBACK_HIDE_MS = 700;
+
+export interface GestureHandlers {
+  togglePlay: () => void;
+  toggleFullscreen: () => void;
+  seekBy: (seconds: number) => void;
+  seekTo: (time: number) => void;
+  setVolume: (volume: number) => void;
+  getVolume: () => number;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+}
+
+type ResolvedGestureOptions = Required<Omit<GestureOptions, 'pointerTypes'>> & { pointerTypes: string[] };
+
+const resolveOptions = (options: boolean | GestureOptions | undefined): ResolvedGestureOptions | null => {
+  if (options === false) return null;
+  const config = options === true || options === undefined ? {} : options;
+
+  return {
+    doubleTapSeek: config.doubleTapSeek ?? 10,
+    swipeVolume: config.swipeVolume ?? 'fullscreen',
+    swipeSeek: config.swipeSeek ?? 90,
+    longPressSpeed: config.longPressSpeed ?? 2,
+    pointerTypes: config.pointerTypes ?? ['touch']
+  };
+};
+
+interface PointerSession {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startVolume: number;
+  startTime: number;
+  mode: 'pending' | 'volume' | 'scrub' | 'speed';
+  scrubTarget: number | null;
+  volume: number;
+  baseRate: number;
+}
+
+export const useGestures = (
+  videoElement: HTMLVideoElement | null,
+  options: boolean | GestureOptions | undefined,
+  isFullscreen: boolean,
+  panning: boolean, // zoomed in, so one-finger drags move the picture instead
+  handlers: GestureHandlers
+) => {
+  const [feedback, setFeedback] = useState<GestureFeedback | null>(null);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const config = resolveOptions(options);
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const volumeSwipeActive = !!config && (config.swipeVolume === true || (config.swipeVolume === 'fullscreen' && isFullscreen));
+  const volumeSwipeRef = useRef(volumeSwipeActive);
+  volumeSwipeRef.current = volumeSwipeActive;
+  const panningRef = useRef(panning);
+  panningRef.current = panning;
+
+  const enabled = !!config;
+  const pointerTypesKey = config?.pointerTypes.join(',') ?? '';
+
+  // Inline, vertical swipes keep scrolling the page unless volume swiping is on
+  useEffect(() => {
+    const video = videoElement;
+    if (!video || !enabled) return;
+
+    video.style.touchAction = volumeSwipeActive || panning ? 'none' : 'pan-y';
+    return () => {
+      video.style.touchAction = '';
+    };
+  }, [videoElement, enabled, volumeSwipeActive, panning]);
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video || !enabled) return;
+
+    const pointerTypes = pointerTypesKey.split(',');
+    let session: PointerSession | null = null;
+    let longPressTimeout: ReturnType<typeof setTimeout> | null = null;
+    let singleTapTimeout: ReturnType<typeof setTimeout> | null = null;
+    let hideTimeout: ReturnType<typeof setTimeout> | null = null;
+    let lastTap: { time: number; side: 'left' | 'center' | 'right' } | null = null;
+    let seekStreak: { side: 'left' | 'right'; seconds: number } | null = null;
+    let handledPointer = false;
+    let feedbackId = 0;
+
+    const showFeedback = (next: GestureFeedback | null, autoHide = false) => {
+      if (hideTimeout) clearTimeout(hideTimeout);
+      hideTimeout = null;
+      setFeedback(next);
+      if (autoHide) {
+        hideTimeout = setTimeout(() => {
+          seekStreak = null;
+          setFeedback(null);
+        }, FEEDBACK_HIDE_MS);
+      }
+    };
+
+    const clearLongPress = () => {
+      if (longPressTimeout) clearTimeout(longPressTimeout);
+      longPressTimeout = null;
+    };
+
+    const getSide = (clientX: number) => {
+      const rect = video.getBoundingClientRect();
+      const ratio = (clientX - rect.left) / (rect.width || 1);
+      return ratio < 1 / 3 ? 'left' : ratio > 2 / 3 ? 'right' : 'center';
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      const currentConfig = configRef.current;
+      handledPointer = !!currentConfig && pointerTypes.includes(event.pointerType);
+      if (!currentConfig || !handledPointer) return;
+
+      // A second finger means a pinch, which is not one of ours
+      if (!event.isPrimary) {
+        clearLongPress();
+        if (session?.mode === 'speed') video.playbackRate = session.baseRate;
+        session = null;
+        showFeedback(null);
+        return;
+      }
+
+      session = {
+        pointerId: event.pointerId,
+        startX: event.clientX,
+        startY: event.clientY,
+        startVolume: handlersRef.current.getVolume(),
+        startTime: handlersRef.current.getCurrentTime(),
+        mode: 'pending',
+        scrubTarget: null,
+        volume: handlersRef.current.getVolume(),
+        baseRate: video.playbackRate
+      };
+
+      if (currentConfig.longPressSpeed) {
+        clearLongPress();
+        longPressTimeout = setTimeout(() => {
+          if (!session || session.mode !== 'pending') return;
+          session.mode = 'speed';
+          // Set on the element directly so the temporary speed isn't saved as a preference
+          video.playbackRate = currentConfig.longPressSpeed as number;
+          showFeedback({ type: 'speed', rate: currentConfig.longPressSpeed as number, id: ++feedbackId });
+        }, LONG_PRESS_MS);
+      }
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const currentConfig = configRef.current;
+      if (!session || !currentConfig || event.pointerId !== session.pointerId) return;
+
+      const dx = event.clientX - session.startX;
+      const dy = event.clientY - session.startY;
+
+      if (session.mode === 'pending') {
+        if (Math.hypot(dx, dy) < MOVE_THRESHOLD_PX) return;
+        clearLongPress();
+
+        if (panningRef.current) {
+          session = null;
+          return;
+        }
+
+        if (Math.abs(dy) > Math.abs(dx) && volumeSwipeRef.current) {
+          session.mode = 'volume';
+        } else if (Math.abs(dx) >= Math.abs(dy) && currentConfig.swipeSeek) {
+          session.mode = 'scrub';
+        } else {
+          session = null;
+          return;
+        }
+
+        video.setPointerCapture?.(event.pointerId);
+      }
+
+      const rect = video.getBoundingClientRect();
+
+      if (session.mode === 'volume') {
+        // A swipe across the full height covers the whole volume range
+        const volume = Math.max(0, Math.min(1, session.startVolume - dy / (rect.height || 1)));
+        session.volume = volume;
+        // Only the element follows the finger; the volume is saved once the swipe ends
+        video.volume = volume;
+        if (volume > 0) video.muted = false;
+        showFeedback({ type: 'volume', volume, id: ++feedbackId });
+      } else if (session.mode === 'scrub') {
+        const duration = handlersRef.current.getDuration();
+        const delta = (dx / (rect.width || 1)) * (currentConfig.swipeSeek as number);
+        const time = Math.max(0, Math.min(duration, session.startTime + delta));
+        session.scrubTarget = time;
+        showFeedback({ type: 'scrub', time, delta: time - session.startTime, id: ++feedbackId });
+      }
+    };
+
+    const handleTap = (event: PointerEvent) => {
+      const currentConfig = configRef.current;
+      const now = Date.now();
+      const side = getSide(event.clientX);
+      const isDoubleTap = lastTap !== null && now - lastTap.time < DOUBLE_TAP_MS;
+      const streak = seekStreak;
+      const continuesStreak = streak !== null && side === streak.side;
+
+      if (currentConfig?.doubleTapSeek && side !== 'center' && (isDoubleTap || continuesStreak)) {
+        if (singleTapTimeout) clearTimeout(singleTapTimeout);
+        singleTapTimeout = null;
+
+        const step = currentConfig.doubleTapSeek as number;
+        handlersRef.current.seekBy(side === 'left' ? -step : step);
+        seekStreak = { side, seconds: (continuesStreak ? streak.seconds : 0) + step };
+        showFeedback({ type: 'seek', side, seconds: seekStreak.seconds, id: ++feedbackId }, true);
+        lastTap = { time: now, side };
+        return;
+      }
+
+      if (isDoubleTap && side === 'center') {
+        if (singleTapTimeout) clearTimeout(singleTapTimeout);
+        singleTapTimeout = null;
+        lastTap = null;
+        handlersRef.current.toggleFullscreen();
+        return;
+      }
+
+      // Wait out the double-tap window before treating it as a plain tap
+      lastTap = { time: now, side };
+      if (singleTapTimeout) clearTimeout(singleTapTimeout);
+      singleTapTimeout = setTimeout(() => {
+        singleTapTimeout = null;
+        handlersRef.current.togglePlay();
+      }, DOUBLE_TAP_MS);
+    };
+
+    const endSession = (event: PointerEvent, cancelled: boolean) => {
+      if (!session || event.pointerId !== session.pointerId) return;
+      clearLongPress();
+
+      const finished = session;
+      session = null;
+
+      if (finished.mode === 'speed') {
+        video.playbackRate = finished.baseRate;
+        showFeedback(null);
+      } else if (finished.mode === 'scrub') {
+        if (!cancelled && finished.scrubTarget !== null) handlersRef.current.seekTo(finished.scrubTarget);
+        showFeedback(null);
+      } else if (finished.mode === 'volume') {
+        handlersRef.current.setVolume(finished.volume);
+        showFeedback({ type: 'volume', volume: finished.volume, id: ++feedbackId }, true);
+      } else if (!cancelled) {
+        handleTap(event);
+      }
+    };
+
+    const handlePointerUp = (event: PointerEvent) => endSession(event, false);
+    const handlePointerCancel = (event: PointerEvent) => endSession(event, true);
+
+    // Taps are handled above, so keep the mouse-oriented click and double-click handlers out of it
+    const suppressMouseHandlers = (event: MouseEvent) => {
+      if (!handledPointer) return;
+      event.stopPropagation();
+    };
+
+    const suppressContextMenu = (event: Event) => {
+      if (handledPointer && session?.mode === 'speed') event.preventDefault();
+    };
+
+    video.addEventListener('pointerdown', handlePointerDown);
+    video.addEventListener('pointermove', handlePointerMove);
+    video.addEventListener('pointerup', handlePointerUp);
+    video.addEventListener('pointercancel', handlePointerCancel);
+    video.addEventListener('click', suppressMouseHandlers);
+    video.addEventListener('dblclick', suppressMouseHandlers);
+    video.addEventListener('contextmenu', suppressContextMenu);
+
+    return () => {
+      clearLongPress();
+      if (singleTapTimeout) clearTimeout(singleTapTimeout);
+      if (hideTimeout) clearTimeout(hideTimeout);
+      if (session?.mode === 'speed') video.playbackRate = session.baseRate;
+
+      video.removeEventListener('pointerdown', handlePointerDown);
+      video.removeEventListener('pointermove', handlePointerMove);
+      video.removeEventListener('pointerup', handlePointerUp);
+      video.removeEventListener('pointercancel', handlePointerCancel);
+      video.removeEventListener('click', suppressMouseHandlers);
+      video.removeEventListener('dblclick', suppressMouseHandlers);
+      video.removeEventListener('contextmenu', suppressContextMenu);
+      setFeedback(null);
+    };
+  }, [videoElement, enabled, pointerTypesKey]);
+
+  return feedback;
+};
@@ -1,4 +1,5 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
+import { KeyboardAction, Keymap, KeyboardShortcutsScope, VideoPlayerApi } from '../types';
 
 export interface KeyboardShortcuts {
   togglePlay: () => void;
@@ -8,125 +9,232 @@ export interface KeyboardShortcuts {
   volumeDown: () => void;
   seekForward: (seconds?: number) => void;
   seekBackward: (seconds?: number) => void;
+  seekToPercent: (percent: number) => void;
   increaseSpeed: () => void;
   decreaseSpeed: () => void;
   toggleSubtitles: () => void;
+  setLoopStart: () => void;
+  setLoopEnd: () => void;
+  clearLoop: () => void;
+  stepFrame: (frames: number) => void;
+  addBookmark: () => void;
+  toggleBookmarks: () => void;
+  toggleShortcutsHelp: () => void;
 }
 
+const LONG_SEEK_SECONDS = 30;
+
+export const DEFAULT_KEYMAP: Keymap = {
+  space: 'togglePlay',
+  k: 'togglePlay',
+  m: 'toggleMute',
+  f: 'toggleFullscreen',
+  arrowup: 'volumeUp',
+  arrowdown: 'volumeDown',
+  arrowright: 'seekForward',
+  arrowleft: 'seekBackward',
+  l: 'seekForward',
+  j: 'seekBackward',
+  'shift+arrowright': 'seekForwardLong',
+  'shift+arrowleft': 'seekBackwardLong',
+  home: 'seekToStart',
+  end: 'seekToEnd',
+  '0': 'seekToPercent',
+  '1': 'seekToPercent',
+  '2': 'seekToPercent',
+  '3': 'seekToPercent',
+  '4': 'seekToPercent',
+  '5': 'seekToPercent',
+  '6': 'seekToPercent',
+  '7': 'seekToPercent',
+  '8': 'seekToPercent',
+  '9': 'seekToPercent',
+  '>': 'increaseSpeed',
+  '<': 'decreaseSpeed',
+  '.': 'nextFrame',
+  ',': 'previousFrame',
+  c: 'toggleSubtitles',
+  '[': 'setLoopStart',
+  ']': 'setLoopEnd',
+  '\\': 'clearLoop',
+  b: 'addBookmark',
+  'shift+b': 'toggleBookmarks',
+  '?': 'toggleShortcutsHelp'
+};
+
+const ACTION_HANDLERS: Record<KeyboardAction, (shortcuts: KeyboardShortcuts, event: KeyboardEvent) => void> = {
+  togglePlay: shortcuts => shortcuts.togglePlay(),
+  toggleMute: shortcuts => shortcuts.toggleMute(),
+  toggleFullscreen: shortcuts => shortcuts.toggleFullscreen(),
+  volumeUp: shortcuts => shortcuts.volumeUp(),
+  volumeDown: shortcuts => shortcuts.volumeDown(),
+  seekForward: shortcuts => shortcuts.seekForward(),
+  seekBackward: shortcuts => shortcuts.seekBackward(),
+  seekForwardLong: shortcuts => shortcuts.seekForward(LONG_SEEK_SECONDS),
+  seekBackwardLong: shortcuts => shortcuts.seekBackward(LONG_SEEK_SECONDS),
+  seekToStart: shortcuts => shortcuts.seekToPercent(0),
+  seekToEnd: shortcuts => shortcuts.seekToPercent(100),
+  // 0-9 jump to 0%-90%, whichever digit triggered the binding
+  seekToPercent: (shortcuts, event) => {
+    const digit = parseInt(event.key, 10);
+    if (!isNaN(digit)) shortcuts.seekToPercent(digit * 10);
+  },
+  increaseSpeed: shortcuts => shortcuts.increaseSpeed(),
+  decreaseSpeed: shortcuts => shortcuts.decreaseSpeed(),
+  nextFrame: shortcuts => shortcuts.stepFrame(1),
+  previousFrame: shortcuts => shortcuts.stepFrame(-1),
+  toggleSubtitles: shortcuts => shortcuts.toggleSubtitles(),
+  setLoopStart: shortcuts => shortcuts.setLoopStart(),
+  setLoopEnd: shortcuts => shortcuts.setLoopEnd(),
+  clearLoop: shortcuts => shortcuts.clearLoop(),
+  addBookmark: shortcuts => shortcuts.addBookmark(),
+  toggleBookmarks: shortcuts => shortcuts.toggleBookmarks(),
+  toggleShortcutsHelp: shortcuts => shortcuts.toggleShortcutsHelp()
+};
+
+const MODIFIERS = ['ctrl', 'alt', 'shift', 'meta'] as const;
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'space',
+  spacebar: 'space',
+  control: 'ctrl',
+  option: 'alt',
+  cmd: 'meta',
+  command: 'meta',
+  esc: 'escape',
+  left: 'arrowleft',
+  right: 'arrowright',
+  up: 'arrowup',
+  down: 'arrowdown',
+  plus: '+'
+};
+
+const normalizeKey = (key: string) => {
+  const lower = key.toLowerCase();
+  return KEY_ALIASES[lower] ?? lower;
+};
+
+// "Shift+ArrowRight", "ctrl + k" and "shift+arrowright" all map to the same combo
+export const normalizeKeyCombo = (combo: string): string => {
+  const parts = combo
+    .split(/\s*\+\s*(?!$)/)
+    .map(part => (part === ' ' ? part : part.trim()))
+    .filter(Boolean)
+    .map(normalizeKey);
+  const key = parts.pop() ?? '';
+  return [...MODIFIERS.filter(modifier => parts.includes(modifier)), key].join('+');
+};
+
+type KeyEventLike = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>;
+
+const getEventCombo = (event: KeyEventLike, includeShift: boolean) => {
+  const modifiers = MODIFIERS.filter(modifier => {
+    if (modifier === 'shift' && !includeShift) return false;
+    return event[`${modifier}Key` as 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'];
+  });
+  return [...modifiers, normalizeKey(event.key)].join('+');
+};
+
+// Characters like ? and > need shift to type, so also try the combo without it
+export const getEventBinding = (keymap: Keymap, event: KeyEventLike): Keymap[string] | undefined =>
+  keymap[getEventCombo(event, true)] ?? (
+    event.key.length === 1 && !/[a-z0-9]/i.test(event.key) ? keymap[getEventCombo(event, false)] : undefined
+  );
+
+const normalizeKeymap = (keymap?: Keymap): Keymap => {
+  const normalized: Keymap = {};
+  Object.entries(keymap ?? {}).forEach(([combo, binding]) => {
+    normalized[normalizeKeyCombo(combo)] = binding;
+  });
+  return normalized;
+};
+
+// Merges user bindings over the defaults; null removes a default binding
+export const resolveKeymap = (keymap?: Keymap): Keymap => {
+  const resolved: Keymap = {};
+
+  Object.entries({ ...DEFAULT_KEYMAP, ...normalizeKeymap(keymap) }).forEach(([combo, binding]) => {
+    if (binding) resolved[combo] = binding;
+  });
+
+  return resolved;
+};
+
+// With document-level listening, bare key presses go to the player the user touched last
+let activeDocumentPlayer: HTMLElement | null = null;
+
 export const useKeyboardShortcuts = (
   enabled: boolean = true,
   shortcuts: KeyboardShortcuts,
-  containerRef: React.RefObject<HTMLElement>
+  containerRef: React.RefObject<HTMLElement>,
+  keymap?: Keymap,
+  scope: KeyboardShortcutsScope = 'player',
+  api?: VideoPlayerApi
 ) => {
+  const latestRef = useRef({ shortcuts, keymap: resolveKeymap(keymap), api });
+  latestRef.current = { shortcuts, keymap: resolveKeymap(keymap), api };
+
   useEffect(() => {
-    if (!enabled || !containerRef.current) return;
+    const container = containerRef.current;
+    if (!enabled || !container) return;
 
     const handleKeyDown = (event: KeyboardEvent) => {
-      // Only handle shortcuts when the player is focused or when no input is focused
-      const focusedElement = document.activeElement;
-      const isInputFocused = focusedElement?.tagName === 'INPUT' || 
+      // Only handle shortcuts when the player is focused or when no input is focused. Focus is
+      // tracked per document, and the player may sit in a Document Picture-in-Picture window
+      const ownerDocument = (event.target as Node | null)?.ownerDocument ?? document;
+      const focusedElement = ownerDocument.activeElement;
+      const isInputFocused = focusedElement?.tagName === 'INPUT' ||
                             focusedElement?.tagName === 'TEXTAREA' ||
-                            (focusedElement as HTMLElement)?.contentEditable === 'true';
-      
-      if (isInputFocused) return;
-      
-      // Check if the player container or its children have focus
-      const playerContainer = containerRef.current;
-      if (!playerContainer?.contains(focusedElement) && document.activeElement !== document.body) {
-        return;
+                            focusedElement?.tagName === 'SELECT' ||
+                            (focusedElement as HTMLElement)?.isContentEditable;
+
+      // Dialogs inside the player (like the shortcut help) handle their own keys
+      const target = event.target as Element | null;
+      if (isInputFocused || event.defaultPrevented || target?.closest?.('[role="dialog"]')) return;
+
+      if (scope === 'document') {
+        const focusInPlayer = container.contains(focusedElement);
+        const focusOnPage = !focusedElement || focusedElement === ownerDocument.body;
+        if (!focusInPlayer && !(focusOnPage && activeDocumentPlayer === container)) return;
       }
 
-      const { key, code, ctrlKey, shiftKey, altKey, metaKey } = event;
-      
-      // Don't handle shortcuts with modifier keys (except for some specific combinations)
-      if (ctrlKey || metaKey || altKey) return;
-
-      switch (key.toLowerCase()) {
-        case ' ':
-        case 'k':
-          event.preventDefault();
-          shortcuts.togglePlay();
-          break;
-          
-        case 'm':
-          event.preventDefault();
-          shortcuts.toggleMute();
-          break;
-          
-        case 'f':
-          event.preventDefault();
-          shortcuts.toggleFullscreen();
-          break;
-          
-        case 'arrowup':
-          event.preventDefault();
-          shortcuts.volumeUp();
-          break;
-          
-        case 'arrowdown':
-          event.preventDefault();
-          shortcuts.volumeDown();
-          break;
-          
-        case 'arrowright':
-          event.preventDefault();
-          shortcuts.seekForward(shiftKey ? 30 : 10);
-          break;
-          
-        case 'arrowleft':
-          event.preventDefault();
-          shortcuts.seekBackward(shiftKey ? 30 : 10);
-          break;
-          
-        case '>':
-        case '.':
-          if (shiftKey) {
-            event.preventDefault();
-            shortcuts.increaseSpeed();
-          }
-          break;
-          
-        case '<':
-        case ',':
-          if (shiftKey) {
-            event.preventDefault();
-            shortcuts.decreaseSpeed();
-          }
-          break;
-          
-        case 'c':
-          event.preventDefault();
-          shortcuts.toggleSubtitles();
-          break;
-
-        // Number keys for seeking (0-9 = 0%-90%)
-        case '0':
-        case '1':
-        case '2':
-        case '3':
-        case '4':
-        case '5':
-        case '6':
-        case '7':
-        case '8':
-        case '9':
-          event.preventDefault();
-          const percent = parseInt(key) * 10;
-          // This would need to be implemented in the parent component
-          break;
+      const { keymap: activeKeymap, shortcuts: activeShortcuts, api: activeApi } = latestRef.current;
+
+      const binding = getEventBinding(activeKeymap, event);
+      if (!binding) return;
+
+      event.preventDefault();
+
+      if (typeof binding === 'string') {
+        ACTION_HANDLERS[binding]?.(activeShortcuts, event);
+      } else if (activeApi) {
+        (typeof binding === 'function' ? binding : binding.handler)(event, activeApi);
       }
     };
 
-    const container = containerRef.current;
-    container?.addEventListener('keydown', handleKeyDown);
-    
+    const markActive = () => {
+      activeDocumentPlayer = container;
+    };
+
+    const target: HTMLElement | Document = scope === 'document' ? document : container;
+    target.addEventListener('keydown', handleKeyDown as EventListener);
+
+    if (scope === 'document') {
+      if (!activeDocumentPlayer || !activeDocumentPlayer.isConnected) markActive();
+      container.addEventListener('pointerdown', markActive);
+      container.addEventListener('focusin', markActive);
+    }
+
     // Make the container focusable
-    if (container && !container.hasAttribute('tabindex')) {
+    if (!container.hasAttribute('tabindex')) {
       container.setAttribute('tabindex', '0');
     }
 
     return () => {
-      container?.removeEventListener('keydown', handleKeyDown);
+      target.removeEventListener('keydown', handleKeyDown as EventListener);
+      container.removeEventListener('pointerdown', markActive);
+      container.removeEventListener('focusin', markActive);
+      if (activeDocumentPlayer === container) activeDocumentPlayer = null;
     };
-  }, [enabled, shortcuts, containerRef]);
+  }, [enabled, containerRef, scope]);
 };
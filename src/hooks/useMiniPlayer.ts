@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+
+export const useMiniPlayer = (
+  enabled: boolean,
+  containerElement: HTMLElement | null,
+  isPlaying: boolean,
+  suppressed: boolean, // fullscreen or picture-in-picture
+  isMiniPlayer: boolean,
+  setMiniPlayer: (active: boolean) => void
+) => {
+  const outOfViewRef = useRef(false);
+  const dismissedRef = useRef(false);
+  const isPlayingRef = useRef(isPlaying);
+  const suppressedRef = useRef(suppressed);
+  isPlayingRef.current = isPlaying;
+  suppressedRef.current = suppressed;
+
+  useEffect(() => {
+    if (!enabled || !containerElement || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        outOfViewRef.current = !entry.isIntersecting;
+
+        if (entry.isIntersecting) {
+          dismissedRef.current = false;
+          setMiniPlayer(false);
+        } else if (isPlayingRef.current && !dismissedRef.current && !suppressedRef.current) {
+          setMiniPlayer(true);
+        }
+      },
+      { threshold: 0 }
+    );
+
+    observer.observe(containerElement);
+    return () => observer.disconnect();
+  }, [enabled, containerElement]);
+
+  // Playback can also start while the player is already scrolled away
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (suppressed) {
+      if (isMiniPlayer) setMiniPlayer(false);
+      return;
+    }
+
+    if (isPlaying && outOfViewRef.current && !dismissedRef.current && !isMiniPlayer) {
+      setMiniPlayer(true);
+    }
+  }, [enabled, isPlaying, suppressed]);
+
+  useEffect(() => {
+    if (!enabled && isMiniPlayer) {
+      setMiniPlayer(false);
+    }
+  }, [enabled]);
+
+  const dismiss = () => {
+    dismissedRef.current = true;
+    setMiniPlayer(false);
+  };
+
+  const restore = () => {
+    setMiniPlayer(false);
+    containerElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  return { dismiss, restore };
+};
@@ -0,0 +1,139 @@
+import { useEffect, useRef } from 'react';
+import { PictureInPictureMode } from '../types';
+
+// Document Picture-in-Picture isn't in lib.dom yet
+interface DocumentPictureInPicture {
+  requestWindow: (options?: { width?: number; height?: number }) => Promise<Window>;
+}
+
+const getDocumentPictureInPicture = () =>
+  typeof window !== 'undefined'
+    ? (window as Window & { documentPictureInPicture?: DocumentPictureInPicture }).documentPictureInPicture
+    : undefined;
+
+const isDocumentPictureInPictureSupported = () => !!getDocumentPictureInPicture();
+
+const isVideoPictureInPictureSupported = () => typeof document !== 'undefined' && document.pictureInPictureEnabled;
+
+// The PiP window starts empty, so carry over every stylesheet the player depends on
+const copyStyleSheets = (targetDocument: Document) => {
+  Array.from(document.styleSheets).forEach(styleSheet => {
+    try {
+      const style = targetDocument.createElement('style');
+      style.textContent = Array.from(styleSheet.cssRules).map(rule => rule.cssText).join('\n');
+      targetDocument.head.appendChild(style);
+    } catch {
+      // Cross-origin sheets cannot be read, link them instead
+      if (!styleSheet.href) return;
+      const link = targetDocument.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = styleSheet.href;
+      targetDocument.head.appendChild(link);
+    }
+  });
+};
+
+export const usePictureInPicture = (
+  mode: PictureInPictureMode,
+  videoElement: HTMLVideoElement | null,
+  containerElement: HTMLElement | null,
+  portalHost: HTMLElement | null, // moved instead of the container when the player is portaled into it
+  isPictureInPicture: boolean,
+  setPictureInPicture: (active: boolean) => void,
+  onEnter?: (mode: 'video' | 'document') => void,
+  onLeave?: () => void
+) => {
+  const pipWindowRef = useRef<Window | null>(null);
+  const callbacksRef = useRef({ onEnter, onLeave });
+  callbacksRef.current = { onEnter, onLeave };
+
+  const useDocumentMode = mode === 'document' || (mode === 'auto' && isDocumentPictureInPictureSupported());
+  const isSupported = useDocumentMode ? isDocumentPictureInPictureSupported() : isVideoPictureInPictureSupported();
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    const handleEnter = () => {
+      setPictureInPicture(true);
+      callbacksRef.current.onEnter?.('video');
+    };
+
+    const handleLeave = () => {
+      setPictureInPicture(false);
+      callbacksRef.current.onLeave?.();
+    };
+
+    video.addEventListener('enterpictureinpicture', handleEnter);
+    video.addEventListener('leavepictureinpicture', handleLeave);
+
+    return () => {
+      video.removeEventListener('enterpictureinpicture', handleEnter);
+      video.removeEventListener('leavepictureinpicture', handleLeave);
+    };
+  }, [videoElement]);
+
+  useEffect(() => {
+    return () => {
+      pipWindowRef.current?.close();
+    };
+  }, []);
+
+  const enterDocumentPictureInPicture = async () => {
+    const container = containerElement;
+    const documentPictureInPicture = getDocumentPictureInPicture();
+    // React only sees events on nodes under its listeners, which sit on the portal host when there is one
+    const movedElement = portalHost?.contains(container) ? portalHost : container;
+    if (!container || !movedElement?.parentNode || !documentPictureInPicture) return;
+
+    const rect = container.getBoundingClientRect();
+    const pipWindow = await documentPictureInPicture.requestWindow({
+      width: Math.round(rect.width) || 640,
+      height: Math.round(rect.height) || 360
+    });
+
+    copyStyleSheets(pipWindow.document);
+
+    // Leave a placeholder so the player returns to exactly the same spot
+    const placeholder = document.createComment('serika-video-player-pip');
+    movedElement.parentNode.insertBefore(placeholder, movedElement);
+    pipWindow.document.body.style.margin = '0';
+    pipWindow.document.body.appendChild(movedElement);
+    container.classList.add('serika-video-player-document-pip');
+
+    pipWindowRef.current = pipWindow;
+    setPictureInPicture(true);
+    callbacksRef.current.onEnter?.('document');
+
+    pipWindow.addEventListener('pagehide', () => {
+      container.classList.remove('serika-video-player-document-pip');
+      placeholder.parentNode?.replaceChild(movedElement, placeholder);
+      pipWindowRef.current = null;
+      setPictureInPicture(false);
+      callbacksRef.current.onLeave?.();
+    }, { once: true });
+  };
+
+  const toggle = async () => {
+    try {
+      if (isPictureInPicture) {
+        if (pipWindowRef.current) {
+          pipWindowRef.current.close();
+        } else if (document.pictureInPictureElement) {
+          await document.exitPictureInPicture();
+        }
+        return;
+      }
+
+      if (useDocumentMode && isDocumentPictureInPictureSupported()) {
+        await enterDocumentPictureInPicture();
+      } else if (videoElement && isVideoPictureInPictureSupported()) {
+        await videoElement.requestPictureInPicture();
+      }
+    } catch (error) {
+      console.error('Error toggling picture-in-picture:', error);
+    }
+  };
+
+  return { toggle, isSupported };
+};
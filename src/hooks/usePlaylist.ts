@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState } from 'react';
+import { PlaylistItem, RepeatMode } from '../types';
+import { preloadVideo } from '../utils/videoLoader';
+
+const PRELOAD_DELAY_MS = 2000;
+
+export interface UsePlaylistOptions {
+  playlist?: PlaylistItem[];
+  startIndex?: number;
+  repeatMode?: RepeatMode;
+  shuffle?: boolean;
+  autoAdvance?: boolean;
+  autoAdvanceDelay?: number;
+  preloadNext?: boolean;
+  onItemChange?: (index: number, item: PlaylistItem) => void;
+}
+
+export interface UsePlaylistResult {
+  enabled: boolean;
+  index: number;
+  currentItem: PlaylistItem | null;
+  nextItem: PlaylistItem | null;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  repeatMode: RepeatMode;
+  shuffle: boolean;
+  countdown: number | null;
+  resumePlayback: boolean;
+  next: () => void;
+  previous: () => void;
+  goTo: (index: number) => void;
+  setRepeatMode: (mode: RepeatMode) => void;
+  setShuffle: (shuffle: boolean) => void;
+  cancelCountdown: () => void;
+  handleEnded: () => void;
+  clearResumePlayback: () => void;
+}
+
+export const usePlaylist = ({
+  playlist = [],
+  startIndex = 0,
+  repeatMode: initialRepeatMode = 'off',
+  shuffle: initialShuffle = false,
+  autoAdvance = true,
+  autoAdvanceDelay = 5,
+  preloadNext = true,
+  onItemChange
+}: UsePlaylistOptions): UsePlaylistResult => {
+  const clampIndex = (value: number) => Math.max(0, Math.min(playlist.length - 1, value));
+
+  const [index, setIndex] = useState(() => clampIndex(startIndex));
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>(initialRepeatMode);
+  const [shuffle, setShuffle] = useState(initialShuffle);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [resumePlayback, setResumePlayback] = useState(false);
+  const [shuffleTarget, setShuffleTarget] = useState<number | null>(null);
+  const historyRef = useRef<number[]>([]);
+  const isFirstIndexRef = useRef(true);
+
+  const enabled = playlist.length > 0;
+
+  // Pick the shuffled successor up front so it can be preloaded
+  useEffect(() => {
+    if (!shuffle || playlist.length < 2) {
+      setShuffleTarget(null);
+      return;
+    }
+
+    const candidates = playlist.map((_, itemIndex) => itemIndex).filter(itemIndex => itemIndex !== index);
+    setShuffleTarget(candidates[Math.floor(Math.random() * candidates.length)]);
+  }, [shuffle, index, playlist.length]);
+
+  const getNextIndex = (): number | null => {
+    if (!enabled) return null;
+    if (shuffle && shuffleTarget !== null) return shuffleTarget;
+    if (index < playlist.length - 1) return index + 1;
+    return repeatMode === 'all' ? 0 : null;
+  };
+
+  const getPreviousIndex = (): number | null => {
+    if (!enabled) return null;
+    if (shuffle && historyRef.current.length > 0) return historyRef.current[historyRef.current.length - 1];
+    if (index > 0) return index - 1;
+    return repeatMode === 'all' ? playlist.length - 1 : null;
+  };
+
+  const nextIndex = getNextIndex();
+  const previousIndex = getPreviousIndex();
+
+  const goTo = (targetIndex: number, resume = true) => {
+    if (!enabled) return;
+
+    const nextValue = clampIndex(targetIndex);
+    setCountdown(null);
+    if (nextValue === index) return;
+
+    historyRef.current.push(index);
+    setResumePlayback(resume);
+    setIndex(nextValue);
+  };
+
+  const next = () => {
+    if (nextIndex !== null) goTo(nextIndex);
+  };
+
+  const previous = () => {
+    if (previousIndex === null) return;
+    if (shuffle) historyRef.current.pop();
+    setCountdown(null);
+    setResumePlayback(true);
+    setIndex(previousIndex);
+  };
+
+  const handleEnded = () => {
+    // Repeat-one is handled by the video element's loop attribute
+    if (!autoAdvance || nextIndex === null || repeatMode === 'one') return;
+
+    if (autoAdvanceDelay <= 0) {
+      goTo(nextIndex);
+    } else {
+      setCountdown(Math.ceil(autoAdvanceDelay));
+    }
+  };
+
+  useEffect(() => {
+    if (countdown === null) return;
+
+    if (countdown <= 0) {
+      setCountdown(null);
+      if (nextIndex !== null) goTo(nextIndex);
+      return;
+    }
+
+    const timeoutId = setTimeout(() => setCountdown(prev => (prev === null ? null : prev - 1)), 1000);
+    return () => clearTimeout(timeoutId);
+  }, [countdown]);
+
+  useEffect(() => {
+    if (isFirstIndexRef.current) {
+      isFirstIndexRef.current = false;
+      return;
+    }
+
+    if (playlist[index]) {
+      onItemChange?.(index, playlist[index]);
+    }
+  }, [index]);
+
+  useEffect(() => {
+    if (index > playlist.length - 1 && playlist.length > 0) {
+      setIndex(playlist.length - 1);
+    }
+  }, [playlist.length]);
+
+  const nextSrc = nextIndex !== null ? playlist[nextIndex]?.src : undefined;
+  const currentSrcRef = useRef(playlist[index]?.src);
+  currentSrcRef.current = playlist[index]?.src;
+
+  useEffect(() => {
+    if (!preloadNext || !nextSrc) return;
+
+    let releasePreload: (() => void) | null = null;
+    const timeoutId = setTimeout(() => {
+      releasePreload = preloadVideo(nextSrc);
+    }, PRELOAD_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+      // When it's the item being advanced to, the player takes the preloaded source over
+      if (currentSrcRef.current !== nextSrc) releasePreload?.();
+    };
+  }, [preloadNext, nextSrc]);
+
+  return {
+    enabled,
+    index,
+    currentItem: playlist[index] ?? null,
+    nextItem: nextIndex !== null ? playlist[nextIndex] ?? null : null,
+    hasNext: nextIndex !== null,
+    hasPrevious: previousIndex !== null,
+    repeatMode,
+    shuffle,
+    countdown,
+    resumePlayback,
+    next,
+    previous,
+    goTo: (targetIndex: number) => goTo(targetIndex),
+    setRepeatMode,
+    setShuffle,
+    cancelCountdown: () => setCountdown(null),
+    handleEnded,
+    clearResumePlayback: () => setResumePlayback(false)
+  };
+};
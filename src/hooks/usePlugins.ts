@@ -0,0 +1,88 @@
+import { useEffect, useRef } from 'react';
+import { VideoPlayerApi, VideoPlayerPlugin } from '../types';
+import { VideoLoaderResult } from '../utils/videoLoader';
+
+const destroyPlugin = (plugin: VideoPlayerPlugin) => {
+  try {
+    plugin.onDestroy?.();
+  } catch (error) {
+    console.error(`Plugin "${plugin.name}" failed to clean up:`, error);
+  }
+};
+
+const notifySourceLoaded = (plugin: VideoPlayerPlugin, videoLoader: VideoLoaderResult, api: VideoPlayerApi) => {
+  try {
+    plugin.onSourceLoaded?.(videoLoader, api);
+  } catch (error) {
+    console.error(`Plugin "${plugin.name}" failed to handle the loaded source:`, error);
+  }
+};
+
+export const usePlugins = (
+  plugins: VideoPlayerPlugin[],
+  api: VideoPlayerApi,
+  videoElement: HTMLVideoElement | null,
+  videoLoader: VideoLoaderResult | null
+): VideoPlayerApi => {
+  const apiRef = useRef(api);
+  apiRef.current = api;
+
+  // Plugins keep the object they got in onInit, so hand out a stable proxy to the latest api
+  const stableApiRef = useRef<VideoPlayerApi | null>(null);
+  if (!stableApiRef.current) {
+    stableApiRef.current = new Proxy({} as VideoPlayerApi, {
+      get: (_target, key) => apiRef.current[key as keyof VideoPlayerApi]
+    });
+  }
+  const stableApi = stableApiRef.current;
+
+  const videoLoaderRef = useRef(videoLoader);
+  videoLoaderRef.current = videoLoader;
+  const initializedRef = useRef<VideoPlayerPlugin[]>([]);
+
+  // Compared by identity, so an inline plugins array only sets up the plugins that were added
+  useEffect(() => {
+    const previous = initializedRef.current;
+    initializedRef.current = plugins;
+
+    previous.filter(plugin => !plugins.includes(plugin)).forEach(destroyPlugin);
+    plugins.filter(plugin => !previous.includes(plugin)).forEach(plugin => {
+      try {
+        plugin.onInit?.(stableApi);
+      } catch (error) {
+        console.error(`Plugin "${plugin.name}" failed to initialize:`, error);
+        return;
+      }
+      // A plugin added after the source loaded still gets to see it
+      if (videoLoaderRef.current) notifySourceLoaded(plugin, videoLoaderRef.current, stableApi);
+    });
+  }, [plugins]);
+
+  useEffect(() => () => initializedRef.current.forEach(destroyPlugin), []);
+
+  useEffect(() => {
+    if (!videoLoader) return;
+
+    initializedRef.current.forEach(plugin => notifySourceLoaded(plugin, videoLoader, stableApi));
+  }, [videoLoader]);
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    const handleTimeUpdate = () => {
+      initializedRef.current.forEach(plugin => {
+        try {
+          plugin.onTimeUpdate?.(video.currentTime, stableApi);
+        } catch (error) {
+          console.error(`Plugin "${plugin.name}" failed to handle a time update:`, error);
+        }
+      });
+    };
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    return () => video.removeEventListener('timeupdate', handleTimeUpdate);
+  }, [videoElement]);
+
+  return stableApi;
+};
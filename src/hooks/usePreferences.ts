@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { StorageAdapter, ViewerPreferences } from '../types';
+import { getDefaultStorage, readStoredJSON, writeStoredJSON } from '../utils/storage';
+
+export const DEFAULT_PREFERENCES_KEY = 'serika-player:preferences';
+
+export const usePreferences = (
+  enabled: boolean,
+  storage: StorageAdapter = getDefaultStorage(),
+  key: string = DEFAULT_PREFERENCES_KEY
+) => {
+  const [preferences, setPreferences] = useState<ViewerPreferences>({});
+  const [loaded, setLoaded] = useState(false);
+  const preferencesRef = useRef<ViewerPreferences>({});
+  const loadedRef = useRef(false);
+  const storageRef = useRef(storage);
+  storageRef.current = storage;
+
+  useEffect(() => {
+    loadedRef.current = false;
+    setLoaded(false);
+    if (!enabled) return;
+
+    let cancelled = false;
+    readStoredJSON<ViewerPreferences>(storageRef.current, key).then(stored => {
+      if (cancelled) return;
+      preferencesRef.current = stored ?? {};
+      loadedRef.current = true;
+      setPreferences(preferencesRef.current);
+      setLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, key]);
+
+  // Writes before the stored values arrive would clobber them, so those are dropped
+  const updatePreferences = useCallback((patch: Partial<ViewerPreferences>) => {
+    if (!enabled || !loadedRef.current) return;
+
+    preferencesRef.current = { ...preferencesRef.current, ...patch };
+    setPreferences(preferencesRef.current);
+    writeStoredJSON(storageRef.current, key, preferencesRef.current);
+  }, [enabled, key]);
+
+  const getPreferences = useCallback(() => preferencesRef.current, []);
+
+  return { preferences, loaded, updatePreferences, getPreferences };
+};
@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react';
+import { ResumeOptions } from '../types';
+import { getDefaultStorage, readStoredJSON, removeStored, writeStoredJSON } from '../utils/storage';
+
+const RESUME_KEY_PREFIX = 'serika-player:resume:';
+
+interface StoredPosition {
+  time: number;
+  duration: number;
+  updatedAt: number;
+}
+
+export const useResume = (
+  options: boolean | ResumeOptions | undefined,
+  mediaKey: string | undefined,
+  videoElement: HTMLVideoElement | null
+) => {
+  const resolved: ResumeOptions | null = options ? (options === true ? {} : options) : null;
+  const {
+    storage = getDefaultStorage(),
+    saveInterval = 5,
+    prompt = false,
+    minTime = 5,
+    endThreshold = 30
+  } = resolved ?? {};
+  const key = resolved && (resolved.mediaId ?? mediaKey) ? `${RESUME_KEY_PREFIX}${resolved.mediaId ?? mediaKey}` : null;
+
+  const [resumeTime, setResumeTime] = useState<number | null>(null);
+  const lastSaveRef = useRef(0);
+  const restoredRef = useRef(false);
+  const lastMediaKeyRef = useRef<string | undefined>(undefined);
+  const settingsRef = useRef({ storage, saveInterval, prompt, minTime, endThreshold });
+  settingsRef.current = { storage, saveInterval, prompt, minTime, endThreshold };
+
+  useEffect(() => {
+    const video = videoElement;
+    // While the source is switching, the element still holds the previous one's metadata
+    const sourceChanged = lastMediaKeyRef.current !== mediaKey;
+    lastMediaKeyRef.current = mediaKey;
+    setResumeTime(null);
+    restoredRef.current = false;
+    if (!video || !key) return;
+
+    let cancelled = false;
+
+    const save = () => {
+      const { storage: store, minTime: min, endThreshold: threshold } = settingsRef.current;
+      // Don't overwrite a saved position before the viewer has had a chance to restore it
+      if (!restoredRef.current || !isFinite(video.duration) || video.duration === 0) return;
+
+      lastSaveRef.current = Date.now();
+      if (video.currentTime < min || video.currentTime > video.duration - threshold) {
+        removeStored(store, key);
+        return;
+      }
+
+      writeStoredJSON(store, key, {
+        time: video.currentTime,
+        duration: video.duration,
+        updatedAt: Date.now()
+      } as StoredPosition);
+    };
+
+    const handleLoadedMetadata = async () => {
+      const { storage: store, prompt: shouldPrompt, minTime: min, endThreshold: threshold } = settingsRef.current;
+      const saved = await readStoredJSON<StoredPosition>(store, key);
+      if (cancelled) return;
+
+      restoredRef.current = true;
+      if (!saved || saved.time < min || saved.time > video.duration - threshold) return;
+
+      if (shouldPrompt) {
+        setResumeTime(saved.time);
+      } else {
+        video.currentTime = saved.time;
+      }
+    };
+
+    const handleTimeUpdate = () => {
+      if (Date.now() - lastSaveRef.current >= settingsRef.current.saveInterval * 1000) {
+        save();
+      }
+    };
+
+    const handleEnded = () => {
+      removeStored(settingsRef.current.storage, key);
+    };
+
+    video.addEventListener('loadedmetadata', handleLoadedMetadata);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('pause', save);
+    video.addEventListener('ended', handleEnded);
+    window.addEventListener('pagehide', save);
+    if (!sourceChanged && video.readyState >= HTMLMediaElement.HAVE_METADATA) handleLoadedMetadata();
+
+    return () => {
+      cancelled = true;
+      save();
+      video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('pause', save);
+      video.removeEventListener('ended', handleEnded);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [videoElement, key, mediaKey]);
+
+  const acceptResume = () => {
+    if (videoElement && resumeTime !== null) {
+      videoElement.currentTime = resumeTime;
+    }
+    setResumeTime(null);
+  };
+
+  const dismissResume = () => {
+    setResumeTime(null);
+  };
+
+  return { resumeTime, acceptResume, dismissResume };
+};
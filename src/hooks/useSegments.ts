@@ -0,0 +1,93 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { SegmentType, VideoSegment } from '../types';
+import { useStableValue } from './useStableValue';
+
+export interface SegmentHandlers {
+  seekTo: (time: number) => void;
+  skipToEnd: () => void; // behaves as if the video had ended, e.g. to move on to the next episode
+  onSkip?: (segment: VideoSegment, automatic: boolean) => void;
+}
+
+export const normalizeSegments = (segments: VideoSegment[] = []): VideoSegment[] =>
+  segments
+    .filter(segment => isFinite(segment.start) && isFinite(segment.end) && segment.end > segment.start)
+    .sort((a, b) => a.start - b.start);
+
+export const getSegmentAtTime = (segments: VideoSegment[], time: number): VideoSegment | null =>
+  segments.find(segment => segment.start <= time && time < segment.end) ?? null;
+
+export const useSegments = (
+  videoElement: HTMLVideoElement | null,
+  segmentsProp: VideoSegment[] | undefined,
+  autoSkipTypes: SegmentType[],
+  handlers: SegmentHandlers
+) => {
+  const stableSegments = useStableValue(segmentsProp);
+  const segments = useMemo(() => normalizeSegments(stableSegments), [stableSegments]);
+  const [activeSegment, setActiveSegment] = useState<VideoSegment | null>(null);
+  const latestRef = useRef({ segments, autoSkipTypes, handlers });
+  latestRef.current = { segments, autoSkipTypes, handlers };
+
+  // Auto-skip fires once per segment, so seeking back into an intro on purpose lets it play
+  const autoSkippedRef = useRef(new Set<number>());
+
+  const skip = (segment: VideoSegment, automatic: boolean) => {
+    const { segments: current, handlers: currentHandlers } = latestRef.current;
+    const isLast = current[current.length - 1]?.start === segment.start;
+
+    currentHandlers.onSkip?.(segment, automatic);
+    if (segment.type === 'outro' && isLast) {
+      currentHandlers.skipToEnd();
+    } else {
+      currentHandlers.seekTo(segment.end);
+    }
+  };
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    const handleTimeUpdate = () => {
+      const segment = getSegmentAtTime(latestRef.current.segments, video.currentTime);
+      setActiveSegment(prev => (prev?.start === segment?.start ? prev : segment));
+
+      if (
+        segment &&
+        !video.paused &&
+        latestRef.current.autoSkipTypes.includes(segment.type) &&
+        !autoSkippedRef.current.has(segment.start)
+      ) {
+        autoSkippedRef.current.add(segment.start);
+        skip(segment, true);
+      }
+    };
+
+    const handleEmptied = () => {
+      autoSkippedRef.current.clear();
+      setActiveSegment(null);
+    };
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('seeked', handleTimeUpdate);
+    video.addEventListener('emptied', handleEmptied);
+
+    return () => {
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('seeked', handleTimeUpdate);
+      video.removeEventListener('emptied', handleEmptied);
+    };
+  }, [videoElement]);
+
+  // New segment data describes a new video
+  useEffect(() => {
+    autoSkippedRef.current.clear();
+    setActiveSegment(videoElement ? getSegmentAtTime(segments, videoElement.currentTime) : null);
+  }, [segments]);
+
+  const skipActiveSegment = () => {
+    const segment = videoElement ? getSegmentAtTime(latestRef.current.segments, videoElement.currentTime) : null;
+    if (segment) skip(segment, false);
+  };
+
+  return { segments, activeSegment, skipActiveSegment };
+};
@@ -0,0 +1,10 @@
+import { useRef } from 'react';
+
+// Inline arrays and objects are new on every render; this hands back the previous one while the
+// content stays the same, so effects and memos depending on it only rerun on a real change
+export const useStableValue = <T>(value: T): T => {
+  const key = JSON.stringify(value);
+  const ref = useRef({ key, value });
+  if (ref.current.key !== key) ref.current = { key, value };
+  return ref.current.value;
+};
@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VideoFit } from '../types';
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 3;
+
+const DRAG_THRESHOLD_PX = 4;
+
+// "21:9", "4/3" and "2.39" all describe a width-to-height ratio
+export const parseAspectRatio = (value: string | undefined): number | null => {
+  if (!value || value === 'auto') return null;
+
+  const [width, height = '1'] = value.split(/[:/]/);
+  const ratio = parseFloat(width) / parseFloat(height);
+  return isFinite(ratio) && ratio > 0 ? ratio : null;
+};
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+export const useVideoDisplay = (
+  containerElement: HTMLElement | null,
+  videoElement: HTMLVideoElement | null,
+  fitProp: VideoFit = 'contain',
+  zoomProp: number = 1,
+  aspectRatioProp: string = 'auto'
+) => {
+  const [fit, setFit] = useState<VideoFit>(fitProp);
+  const [zoom, setZoomState] = useState(clampZoom(zoomProp));
+  const [aspectRatio, setAspectRatio] = useState(aspectRatioProp);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [videoRatio, setVideoRatio] = useState<number | null>(null);
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+  const panRef = useRef(pan);
+  panRef.current = pan;
+  const frameSizeRef = useRef(frameSize);
+  frameSizeRef.current = frameSize;
+
+  useEffect(() => setFit(fitProp), [fitProp]);
+  useEffect(() => setZoomState(clampZoom(zoomProp)), [zoomProp]);
+  useEffect(() => setAspectRatio(aspectRatioProp), [aspectRatioProp]);
+
+  // Keep the picture from being dragged past its own edges
+  const clampPan = (x: number, y: number, currentZoom = zoomRef.current) => {
+    const size = frameSizeRef.current;
+    if (!size || currentZoom <= 1) return { x: 0, y: 0 };
+
+    const maxX = (size.width * (currentZoom - 1)) / 2;
+    const maxY = (size.height * (currentZoom - 1)) / 2;
+    return { x: Math.max(-maxX, Math.min(maxX, x)), y: Math.max(-maxY, Math.min(maxY, y)) };
+  };
+
+  const setZoom = (nextZoom: number) => {
+    const clamped = clampZoom(nextZoom);
+    setZoomState(clamped);
+    setPan(prev => clampPan(prev.x, prev.y, clamped));
+  };
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    const updateRatio = () => {
+      setVideoRatio(video.videoWidth && video.videoHeight ? video.videoWidth / video.videoHeight : null);
+    };
+
+    updateRatio();
+    // 'resize' also fires when an adaptive stream switches to a different resolution
+    video.addEventListener('loadedmetadata', updateRatio);
+    video.addEventListener('resize', updateRatio);
+
+    return () => {
+      video.removeEventListener('loadedmetadata', updateRatio);
+      video.removeEventListener('resize', updateRatio);
+    };
+  }, [videoElement]);
+
+  useEffect(() => {
+    const container = containerElement;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setFrameSize(prev => (prev && prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerElement]);
+
+  // Drag to pan while zoomed in, pinch with two fingers to zoom
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    const pointers = new Map<number, { x: number; y: number }>();
+    let drag: { startX: number; startY: number; panX: number; panY: number; moved: boolean } | null = null;
+    let pinch: { distance: number; zoom: number } | null = null;
+    let suppressClick = false;
+
+    const getDistance = () => {
+      const [first, second] = Array.from(pointers.values());
+      return Math.hypot(first.x - second.x, first.y - second.y);
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.pointerType === 'mouse' && event.button !== 0) return;
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      suppressClick = false;
+
+      if (pointers.size === 2 && event.pointerType !== 'mouse') {
+        drag = null;
+        pinch = { distance: getDistance() || 1, zoom: zoomRef.current };
+      } else if (pointers.size === 1 && zoomRef.current > 1) {
+        const { x, y } = panRef.current;
+        drag = { startX: event.clientX, startY: event.clientY, panX: x, panY: y, moved: false };
+      }
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!pointers.has(event.pointerId)) return;
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+      if (pinch && pointers.size === 2) {
+        const nextZoom = clampZoom((pinch.zoom * getDistance()) / pinch.distance);
+        zoomRef.current = nextZoom;
+        setZoomState(nextZoom);
+        setPan(prev => clampPan(prev.x, prev.y, nextZoom));
+        suppressClick = true;
+        return;
+      }
+
+      if (!drag) return;
+      const dx = event.clientX - drag.startX;
+      const dy = event.clientY - drag.startY;
+      if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+
+      if (!drag.moved) {
+        drag.moved = true;
+        video.setPointerCapture?.(event.pointerId);
+      }
+      suppressClick = true;
+      setPan(clampPan(drag.panX + dx, drag.panY + dy));
+    };
+
+    const handlePointerEnd = (event: PointerEvent) => {
+      pointers.delete(event.pointerId);
+      if (pointers.size < 2) pinch = null;
+      if (pointers.size === 0) drag = null;
+    };
+
+    // A drag or pinch shouldn't also count as a click on the video
+    const handleClick = (event: MouseEvent) => {
+      if (!suppressClick) return;
+      suppressClick = false;
+      event.stopPropagation();
+    };
+
+    video.addEventListener('pointerdown', handlePointerDown);
+    video.addEventListener('pointermove', handlePointerMove);
+    video.addEventListener('pointerup', handlePointerEnd);
+    video.addEventListener('pointercancel', handlePointerEnd);
+    video.addEventListener('click', handleClick, true);
+
+    return () => {
+      video.removeEventListener('pointerdown', handlePointerDown);
+      video.removeEventListener('pointermove', handlePointerMove);
+      video.removeEventListener('pointerup', handlePointerEnd);
+      video.removeEventListener('pointercancel', handlePointerEnd);
+      video.removeEventListener('click', handleClick, true);
+    };
+  }, [videoElement]);
+
+  useEffect(() => {
+    if (zoom <= 1) setPan({ x: 0, y: 0 });
+  }, [zoom]);
+
+  const overrideRatio = parseAspectRatio(aspectRatio);
+  const frameRatio = frameSize && frameSize.height > 0 ? frameSize.width / frameSize.height : null;
+
+  // An aspect override stretches the picture to that shape, fitted inside the frame
+  const overrideSize =
+    overrideRatio && frameRatio
+      ? overrideRatio > frameRatio
+        ? { width: '100%', height: `${(frameRatio / overrideRatio) * 100}%` }
+        : { width: `${(overrideRatio / frameRatio) * 100}%`, height: '100%' }
+      : null;
+
+  const videoStyle: React.CSSProperties = {
+    objectFit: overrideRatio ? 'fill' : fit,
+    ...(overrideSize ?? {}),
+    transform: zoom !== 1 ? `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` : undefined
+  };
+
+  return {
+    fit,
+    zoom,
+    aspectRatio,
+    setFit,
+    setZoom,
+    setAspectRatio,
+    resetPan: () => setPan({ x: 0, y: 0 }),
+    videoStyle,
+    // Player shape when height is 'auto': the override, else the video's own ratio
+    frameAspectRatio: overrideRatio ?? videoRatio
+  };
+};
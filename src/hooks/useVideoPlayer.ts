@@ -0,0 +1,1445 @@
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import {
+  AdBreak,
+  AudioTrackOption,
+  Bookmark,
+  Chapter,
+  DanmakuComment,
+  DanmakuSettings,
+  GestureFeedback,
+  Keymap,
+  ParsedSubtitles,
+  SubtitleCue,
+  SubtitleTrack,
+  AudioSettings,
+  SegmentType,
+  ThumbnailCue,
+  VideoFilters,
+  ViewerPreferences,
+  VideoPlayerActions,
+  VideoPlayerApi,
+  VideoPlayerProps,
+  VideoPlayerState,
+  VideoSegment
+} from '../types';
+import { parseSubtitles, getCurrentSubtitleCue } from '../utils/subtitleParser';
+import { loadVideo, VideoLoaderResult } from '../utils/videoLoader';
+import { parseChapters, normalizeChapters, getChapterIndexAtTime } from '../utils/chapters';
+import { loadThumbnails } from '../utils/thumbnails';
+import { loadHeatmap, smoothHeatmap } from '../utils/heatmap';
+import { useCustomTheme } from './useCustomTheme';
+import { useKeyboardShortcuts, resolveKeymap } from './useKeyboardShortcuts';
+import { usePlugins } from './usePlugins';
+import { useMiniPlayer } from './useMiniPlayer';
+import { usePictureInPicture } from './usePictureInPicture';
+import { useResume } from './useResume';
+import { usePreferences } from './usePreferences';
+import { useABLoop } from './useABLoop';
+import { useFrameRate } from './useFrameRate';
+import { useGestures } from './useGestures';
+import { useVideoDisplay } from './useVideoDisplay';
+import { useAudioProcessing, isMediaTainted, isRoutedThroughWebAudio, DEFAULT_AUDIO_SETTINGS } from './useAudioProcessing';
+import { useSegments } from './useSegments';
+import { useBookmarks } from './useBookmarks';
+import { useAds } from './useAds';
+import { findLanguageMatch } from '../utils/language';
+import { getCssFilter } from '../utils/videoFilters';
+import { DEFAULT_FRAME_RATE } from '../utils/formatTime';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+export const SEEK_STEP_SECONDS = 10;
+
+const CONTROLS_HIDE_DELAY_MS = 3000;
+
+let videoFilterCount = 0;
+let postedCommentCount = 0;
+
+export const DEFAULT_DANMAKU_SETTINGS: DanmakuSettings = {
+  enabled: true,
+  density: 0.75,
+  opacity: 0.85
+};
+
+export type UseVideoPlayerOptions = Pick<
+  VideoPlayerProps,
+  | 'src'
+  | 'muted'
+  | 'subtitles'
+  | 'theme'
+  | 'customTheme'
+  | 'enableKeyboardShortcuts'
+  | 'onPlay'
+  | 'onPause'
+  | 'onEnded'
+  | 'onTimeUpdate'
+  | 'onLoadedMetadata'
+  | 'onQualityChange'
+  | 'onError'
+  | 'currentTime'
+  | 'playing'
+  | 'volume'
+  | 'playbackRate'
+  | 'selectedSubtitle'
+  | 'selectedQuality'
+  | 'onCurrentTimeChange'
+  | 'onPlayingChange'
+  | 'onVolumeChange'
+  | 'onPlaybackRateChange'
+  | 'onSelectedSubtitleChange'
+  | 'plugins'
+  | 'chapters'
+  | 'enableThumbnails'
+  | 'thumbnailsVTT'
+  | 'enableMiniPlayer'
+  | 'pictureInPictureMode'
+  | 'onEnterPictureInPicture'
+  | 'onLeavePictureInPicture'
+  | 'resume'
+  | 'persistPreferences'
+  | 'preferencesStorage'
+  | 'preferencesKey'
+  | 'abLoop'
+  | 'onABLoopChange'
+  | 'onABLoopRepeat'
+  | 'frameRate'
+  | 'keymap'
+  | 'keyboardShortcutsScope'
+  | 'gestures'
+  | 'videoFit'
+  | 'zoom'
+  | 'aspectRatio'
+  | 'videoFilters'
+  | 'onVideoFiltersChange'
+  | 'audioProcessing'
+  | 'segments'
+  | 'autoSkipSegments'
+  | 'onSegmentSkip'
+  | 'heatmap'
+  | 'enableBookmarks'
+  | 'bookmarks'
+  | 'onBookmarksChange'
+  | 'danmaku'
+  | 'danmakuSettings'
+  | 'onComment'
+  | 'ads'
+  | 'onAdBreakStart'
+  | 'onAdBreakEnd'
+>;
+
+export interface UseVideoPlayerResult {
+  state: VideoPlayerState;
+  actions: VideoPlayerActions;
+  api: VideoPlayerApi;
+  videoRef: (node: HTMLVideoElement | null) => void;
+  containerRef: (node: HTMLDivElement | null) => void;
+  videoElement: HTMLVideoElement | null;
+  containerElement: HTMLDivElement | null;
+  // Render the player into this with createPortal. React then listens for events on it, so they
+  // keep working after Document Picture-in-Picture moves it into the PiP window
+  portalHost: HTMLDivElement | null;
+  // Give the <video> this key: it changes when the element has to be replaced
+  mediaElementKey: number;
+  isPictureInPictureSupported: boolean;
+  videoLoader: VideoLoaderResult | null;
+  subtitleTracks: SubtitleTrack[];
+  parsedSubtitles: ParsedSubtitles;
+  currentSubtitleCue: SubtitleCue | null;
+  chapters: Chapter[];
+  currentChapterIndex: number;
+  segments: VideoSegment[]; // sorted, with empty or invalid ranges dropped
+  thumbnails: ThumbnailCue[];
+  heatmap: number[]; // smoothed and scaled to 0-1, empty without heatmap data
+  resumeTime: number | null;
+  frameRate: number | null;
+  keymap: Keymap; // defaults merged with the keymap option, for rendering shortcut help
+  gesture: GestureFeedback | null; // what a touch gesture is doing right now, for on-screen feedback
+  videoStyle: React.CSSProperties; // fit, zoom, pan, aspect override and picture filters for the <video> element
+  videoFilterId: string; // id the CSS filter expects on the SVG filter for gamma and sharpen
+  frameAspectRatio: number | null; // shape the player should take when its height is automatic
+  bookmarksEnabled: boolean;
+  danmaku: DanmakuComment[]; // the danmaku option plus comments posted here that haven't come back through it yet
+  ownDanmakuIds: Set<string>;
+  danmakuEnabled: boolean; // danmaku or onComment was given, so the toggle and layer apply
+  adBreaks: AdBreak[]; // sorted by time, for marking mid-rolls on the timeline
+  adVideoRef: (node: HTMLVideoElement | null) => void; // for the <video> in the ad layer
+  adVideoElement: HTMLVideoElement | null;
+  preferences: ViewerPreferences;
+  updatePreferences: (patch: Partial<ViewerPreferences>) => void;
+  bufferedPercent: number;
+  progressPercent: number;
+}
+
+export const useVideoPlayer = ({
+  src,
+  muted = false,
+  subtitles = [],
+  theme = 'dark',
+  customTheme,
+  enableKeyboardShortcuts = true,
+  onPlay,
+  onPause,
+  onEnded,
+  onTimeUpdate,
+  onLoadedMetadata,
+  onQualityChange,
+  onError,
+  currentTime: controlledCurrentTime,
+  playing: controlledPlaying,
+  volume: controlledVolume,
+  playbackRate: controlledPlaybackRate,
+  selectedSubtitle: controlledSubtitle,
+  selectedQuality: controlledQuality,
+  onCurrentTimeChange,
+  onPlayingChange,
+  onVolumeChange,
+  onPlaybackRateChange,
+  onSelectedSubtitleChange,
+  plugins = [],
+  chapters: chaptersProp,
+  enableThumbnails = true,
+  thumbnailsVTT,
+  enableMiniPlayer = false,
+  pictureInPictureMode = 'auto',
+  onEnterPictureInPicture,
+  onLeavePictureInPicture,
+  resume,
+  persistPreferences = true,
+  preferencesStorage,
+  preferencesKey,
+  abLoop: abLoopOptions,
+  onABLoopChange,
+  onABLoopRepeat,
+  frameRate: frameRateProp,
+  keymap,
+  keyboardShortcutsScope = 'player',
+  gestures,
+  videoFit,
+  zoom,
+  aspectRatio,
+  videoFilters: controlledVideoFilters,
+  onVideoFiltersChange,
+  audioProcessing = false,
+  segments: segmentsProp,
+  autoSkipSegments = [],
+  onSegmentSkip,
+  heatmap: heatmapProp,
+  enableBookmarks,
+  bookmarks: controlledBookmarks,
+  onBookmarksChange,
+  danmaku: danmakuProp,
+  danmakuSettings: danmakuSettingsProp,
+  onComment,
+  ads: adsOptions,
+  onAdBreakStart,
+  onAdBreakEnd
+}: UseVideoPlayerOptions): UseVideoPlayerResult => {
+  // Chapter tracks are navigation data, not captions; indexes below refer to the remaining tracks
+  const subtitleTracks = useMemo(() => subtitles.filter(subtitle => subtitle.kind !== 'chapters'), [subtitles]);
+  const chapterTrackSrc = subtitles.find(subtitle => subtitle.kind === 'chapters')?.src;
+
+  const getInitialSubtitleIndex = () => {
+    if (subtitleTracks.length === 0) {
+      return null;
+    }
+
+    const defaultTrackIndex = subtitleTracks.findIndex(subtitle => subtitle.default);
+    return defaultTrackIndex >= 0 ? defaultTrackIndex : 0;
+  };
+
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [containerElement, setContainerElement] = useState<HTMLDivElement | null>(null);
+  const [portalHost] = useState<HTMLDivElement | null>(() => {
+    if (typeof document === 'undefined') return null;
+    const host = document.createElement('div');
+    host.className = 'serika-video-player-portal';
+    return host;
+  });
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const hideControlsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reportedTimeRef = useRef<number | null>(null);
+  const controlledTimeRef = useRef(controlledCurrentTime);
+  const controlledQualityRef = useRef(controlledQuality);
+  // Read through a ref so an inline onEnded doesn't re-attach the media listeners on every render
+  const onEndedRef = useRef(onEnded);
+  controlledTimeRef.current = controlledCurrentTime;
+  controlledQualityRef.current = controlledQuality;
+  onEndedRef.current = onEnded;
+
+  const setVideoRef = useCallback((node: HTMLVideoElement | null) => {
+    videoRef.current = node;
+    setVideoElement(node);
+  }, []);
+
+  const setContainerRef = useCallback((node: HTMLDivElement | null) => {
+    setContainerElement(node);
+  }, []);
+
+  // Hooks below take ref objects; a new object per element re-runs their effects
+  const containerRefObject = useMemo(() => ({ current: containerElement as HTMLElement | null }), [containerElement]);
+
+  const [internalState, setState] = useState<VideoPlayerState>({
+    isPlaying: false,
+    currentTime: 0,
+    duration: 0,
+    volume: 1,
+    isMuted: muted,
+    isFullscreen: false,
+    showControls: true,
+    selectedSubtitle: getInitialSubtitleIndex(),
+    subtitleFontScale: 1,
+    buffered: null,
+    playbackRate: 1,
+    availableQualities: [],
+    selectedQuality: 'auto',
+    isLoading: true,
+    error: null,
+    isMiniPlayer: false,
+    isPictureInPicture: false,
+    showSettings: false,
+    showShortcutsHelp: false,
+    videoFit: 'contain',
+    zoom: 1,
+    aspectRatio: 'auto',
+    videoFilters: {},
+    audioSettings: DEFAULT_AUDIO_SETTINGS,
+    isAudioProcessingAvailable: false,
+    availableAudioTracks: [],
+    selectedAudioTrack: 0,
+    abLoop: null,
+    activeSegment: null,
+    autoSkipSegments: [],
+    bookmarks: [],
+    showBookmarks: false,
+    danmakuSettings: DEFAULT_DANMAKU_SETTINGS,
+    ad: null
+  });
+
+  const abLoop = useABLoop(
+    videoElement,
+    abLoopOptions,
+    rate => {
+      if (controlledPlaybackRate !== undefined) {
+        onPlaybackRateChange?.(rate);
+      } else if (videoRef.current) {
+        videoRef.current.playbackRate = rate;
+      }
+    },
+    onABLoopChange,
+    onABLoopRepeat
+  );
+
+  const frameRate = useFrameRate(videoElement, src, frameRateProp);
+  const display = useVideoDisplay(containerElement, videoElement, videoFit, zoom, aspectRatio);
+  const [localVideoFilters, setLocalVideoFilters] = useState<VideoFilters>({});
+  const [audioSettings, setAudioSettingsState] = useState<AudioSettings>(() => ({
+    ...DEFAULT_AUDIO_SETTINGS,
+    ...(typeof audioProcessing === 'object' ? audioProcessing : {})
+  }));
+  const audio = useAudioProcessing(videoElement, audioProcessing !== false, audioSettings);
+  const [autoSkipTypes, setAutoSkipTypes] = useState<SegmentType[]>(autoSkipSegments);
+  const segmentState = useSegments(videoElement, segmentsProp, autoSkipTypes, {
+    seekTo: time => seekTo(time),
+    skipToEnd: () => {
+      const video = videoRef.current;
+      if (!video) return;
+
+      // Pausing first keeps the element from firing its own 'ended' as well
+      video.pause();
+      seekTo(state.duration);
+      if (!adState.startPostroll()) onEndedRef.current?.();
+    },
+    onSkip: onSegmentSkip
+  });
+  const bookmarkState = useBookmarks(src, controlledBookmarks, onBookmarksChange);
+  const bookmarksEnabled = enableBookmarks ?? controlledBookmarks !== undefined;
+  const [danmakuSettings, setDanmakuSettingsState] = useState<DanmakuSettings>(() => ({
+    ...DEFAULT_DANMAKU_SETTINGS,
+    ...danmakuSettingsProp
+  }));
+  const [postedComments, setPostedComments] = useState<DanmakuComment[]>([]);
+  const danmakuEnabled = danmakuProp !== undefined || onComment !== undefined;
+
+  const danmaku = useMemo(() => {
+    const knownIds = new Set((danmakuProp ?? []).map(comment => comment.id));
+    return [...(danmakuProp ?? []), ...postedComments.filter(comment => !knownIds.has(comment.id))];
+  }, [danmakuProp, postedComments]);
+  const ownDanmakuIds = useMemo(() => new Set(postedComments.map(comment => comment.id as string)), [postedComments]);
+
+  useEffect(() => setPostedComments([]), [src]);
+
+  // What an ad break interrupted, put back once it's over
+  const adSnapshotRef = useRef<{ time: number; subtitle: number | null; quality: string } | null>(null);
+  const adState = useAds(videoElement, src, internalState.duration, adsOptions, {
+    pauseContent: () => {
+      const video = videoRef.current;
+      adSnapshotRef.current = {
+        time: video?.currentTime ?? state.currentTime,
+        subtitle: state.selectedSubtitle,
+        quality: state.selectedQuality
+      };
+      video?.pause();
+    },
+    resumeContent: ended => {
+      const snapshot = adSnapshotRef.current;
+      adSnapshotRef.current = null;
+      if (ended) {
+        onEndedRef.current?.();
+        return;
+      }
+
+      const video = videoRef.current;
+      if (!video || !snapshot) return;
+
+      if (Math.abs(video.currentTime - snapshot.time) > 0.5) seekTo(snapshot.time);
+      if (state.selectedSubtitle !== snapshot.subtitle) selectSubtitle(snapshot.subtitle);
+      if (controlledQuality === undefined && state.selectedQuality !== snapshot.quality) applyQuality(snapshot.quality);
+      requestPlaying(true);
+    },
+    onAdBreakStart,
+    onAdBreakEnd
+  });
+  const videoFilterIdRef = useRef<string>();
+  if (!videoFilterIdRef.current) videoFilterIdRef.current = `serika-video-filter-${++videoFilterCount}`;
+
+  // Controlled props win over the internal state, like a controlled <input>
+  const state: VideoPlayerState = {
+    ...internalState,
+    currentTime: controlledCurrentTime ?? internalState.currentTime,
+    isPlaying: controlledPlaying ?? internalState.isPlaying,
+    volume: controlledVolume ?? internalState.volume,
+    playbackRate: controlledPlaybackRate ?? internalState.playbackRate,
+    selectedSubtitle: controlledSubtitle !== undefined ? controlledSubtitle : internalState.selectedSubtitle,
+    selectedQuality: controlledQuality ?? internalState.selectedQuality,
+    abLoop: abLoop.region,
+    videoFit: display.fit,
+    zoom: display.zoom,
+    aspectRatio: display.aspectRatio,
+    videoFilters: controlledVideoFilters ?? localVideoFilters,
+    audioSettings,
+    isAudioProcessingAvailable: audio.isAvailable,
+    activeSegment: segmentState.activeSegment,
+    autoSkipSegments: autoSkipTypes,
+    bookmarks: bookmarkState.bookmarks,
+    danmakuSettings,
+    ad: adState.playback
+  };
+
+  const [parsedSubtitles, setParsedSubtitles] = useState<ParsedSubtitles>({});
+  const [videoLoader, setVideoLoader] = useState<VideoLoaderResult | null>(null);
+  const [mediaElementKey, setMediaElementKey] = useState(0);
+  const [trackChapters, setTrackChapters] = useState<Chapter[]>([]);
+  const [thumbnails, setThumbnails] = useState<ThumbnailCue[]>([]);
+  const [heatmapValues, setHeatmapValues] = useState<number[]>([]);
+  const heatmapKey = Array.isArray(heatmapProp) ? heatmapProp.join(',') : heatmapProp;
+  const heatmap = useMemo(() => smoothHeatmap(heatmapValues), [heatmapValues]);
+
+  const chapters = useMemo(
+    () => normalizeChapters(chaptersProp ?? trackChapters, internalState.duration),
+    [chaptersProp, trackChapters, internalState.duration]
+  );
+
+  useCustomTheme(theme, customTheme, containerRefObject);
+
+  const {
+    preferences,
+    loaded: preferencesLoaded,
+    updatePreferences,
+    getPreferences
+  } = usePreferences(persistPreferences, preferencesStorage, preferencesKey);
+  const subtitleLanguagesKey = subtitleTracks.map(track => track.language).join('|');
+
+  useEffect(() => {
+    if (!preferencesLoaded) return;
+    const stored = getPreferences();
+    if (stored.subtitleFontScale !== undefined) {
+      setState(prev => ({ ...prev, subtitleFontScale: stored.subtitleFontScale as number }));
+    }
+    setLocalVideoFilters(stored.videoFilters ?? {});
+    if (stored.audio) setAudioSettingsState(prev => ({ ...prev, ...stored.audio }));
+    if (stored.autoSkipSegments) setAutoSkipTypes(stored.autoSkipSegments);
+    if (stored.danmaku) setDanmakuSettingsState(prev => ({ ...prev, ...stored.danmaku }));
+  }, [preferencesLoaded]);
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video || !src) return;
+
+    setState(prev => ({
+      ...prev,
+      isLoading: true,
+      isPlaying: false,
+      currentTime: 0,
+      duration: 0,
+      error: null
+    }));
+
+    if (!video.paused) {
+      video.pause();
+    }
+
+    if (videoLoader?.cleanup) {
+      videoLoader.cleanup();
+    }
+
+    const timeoutId = setTimeout(() => {
+      loadVideo(video, src)
+        .then(newLoader => {
+          // Web Audio would only output silence for this source, so play it on a new element instead
+          if (newLoader.type === 'native' && isRoutedThroughWebAudio(video) && isMediaTainted(video)) {
+            video.removeAttribute('src');
+            video.load();
+            setMediaElementKey(key => key + 1);
+            return;
+          }
+          setVideoLoader(newLoader);
+        })
+        .catch(error => {
+          const castedError = error as Error;
+          console.error('Error loading video:', error);
+          setState(prev => ({ ...prev, error: castedError, isLoading: false }));
+          onError?.(castedError);
+          video.src = src;
+        });
+    }, 50);
+
+    return () => {
+      clearTimeout(timeoutId);
+      if (videoLoader?.cleanup) {
+        videoLoader.cleanup();
+      }
+    };
+  }, [src, videoElement]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSubtitles = async () => {
+      const newParsedSubtitles: ParsedSubtitles = {};
+
+      for (let i = 0; i < subtitleTracks.length; i++) {
+        const subtitle = subtitleTracks[i];
+        const cues = await parseSubtitles(subtitle.src);
+        newParsedSubtitles[i] = cues;
+      }
+
+      if (!cancelled) {
+        setParsedSubtitles(newParsedSubtitles);
+      }
+    };
+
+    if (subtitleTracks.length > 0) {
+      loadSubtitles();
+    } else {
+      // Drop cues left over from a previous source without re-rendering needlessly
+      setParsedSubtitles(prev => (Object.keys(prev).length > 0 ? {} : prev));
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [subtitleTracks]);
+
+  useEffect(() => {
+    if (!chapterTrackSrc) {
+      setTrackChapters(prev => (prev.length > 0 ? [] : prev));
+      return;
+    }
+
+    let cancelled = false;
+    parseChapters(chapterTrackSrc).then(parsed => {
+      if (!cancelled) {
+        setTrackChapters(parsed);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterTrackSrc]);
+
+  useEffect(() => {
+    if (!enableThumbnails || !thumbnailsVTT) {
+      setThumbnails(prev => (prev.length > 0 ? [] : prev));
+      return;
+    }
+
+    let cancelled = false;
+    loadThumbnails(thumbnailsVTT).then(cues => {
+      if (!cancelled) {
+        setThumbnails(cues);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enableThumbnails, thumbnailsVTT]);
+
+  useEffect(() => {
+    if (typeof heatmapProp !== 'string') {
+      setHeatmapValues(heatmapProp ?? []);
+      return;
+    }
+
+    let cancelled = false;
+    loadHeatmap(heatmapProp).then(values => {
+      if (!cancelled) {
+        setHeatmapValues(values);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [heatmapKey]);
+
+  useEffect(() => {
+    if (!videoLoader || videoLoader.type !== 'hls' || !videoLoader.player) {
+      setState(prev => ({
+        ...prev,
+        availableQualities: [],
+        selectedQuality: 'auto',
+        availableAudioTracks: [],
+        selectedAudioTrack: 0
+      }));
+      return;
+    }
+
+    const hls = videoLoader.player;
+    const events = hls.constructor?.Events ?? {};
+
+    const mapQualityLevels = () => {
+      const levels = (hls.levels || []) as Array<{ height?: number; width?: number; bitrate?: number }>;
+      const mapped = levels.map((level, index) => ({
+        index,
+        height: level.height || 0,
+        width: level.width,
+        bitrate: level.bitrate,
+        label: level.height ? `${level.height}p` : `Level ${index + 1}`
+      }));
+
+      setState(prev => ({
+        ...prev,
+        availableQualities: mapped,
+        selectedQuality: hls.currentLevel === -1 ? 'auto' : String(hls.currentLevel)
+      }));
+    };
+
+    const mapAudioTracks = () => {
+      const tracks = (hls.audioTracks || []) as Array<{ id?: number; name?: string; lang?: string }>;
+      const mapped: AudioTrackOption[] = tracks.map((track, index) => ({
+        id: track.id ?? index,
+        label: track.name || track.lang || `Track ${index + 1}`,
+        language: track.lang
+      }));
+
+      setState(prev => ({
+        ...prev,
+        availableAudioTracks: mapped,
+        selectedAudioTrack: hls.audioTrack ?? 0
+      }));
+    };
+
+    const handleManifestParsed = () => {
+      mapQualityLevels();
+      mapAudioTracks();
+      if (controlledQualityRef.current !== undefined) {
+        applyQuality(controlledQualityRef.current);
+      }
+    };
+
+    const handleLevelSwitched = (_event: unknown, data: { level: number }) => {
+      setState(prev => ({ ...prev, selectedQuality: data.level === -1 ? 'auto' : String(data.level) }));
+    };
+
+    const handleAudioSwitching = (_event: unknown, data: { id: number }) => {
+      setState(prev => ({ ...prev, selectedAudioTrack: data.id }));
+    };
+
+    if (events.MANIFEST_PARSED) hls.on(events.MANIFEST_PARSED, handleManifestParsed);
+    if (events.LEVEL_SWITCHED) hls.on(events.LEVEL_SWITCHED, handleLevelSwitched);
+    if (events.AUDIO_TRACKS_UPDATED) hls.on(events.AUDIO_TRACKS_UPDATED, mapAudioTracks);
+    if (events.AUDIO_TRACK_SWITCHED) hls.on(events.AUDIO_TRACK_SWITCHED, handleAudioSwitching);
+
+    mapQualityLevels();
+    mapAudioTracks();
+
+    return () => {
+      if (events.MANIFEST_PARSED) hls.off(events.MANIFEST_PARSED, handleManifestParsed);
+      if (events.LEVEL_SWITCHED) hls.off(events.LEVEL_SWITCHED, handleLevelSwitched);
+      if (events.AUDIO_TRACKS_UPDATED) hls.off(events.AUDIO_TRACKS_UPDATED, mapAudioTracks);
+      if (events.AUDIO_TRACK_SWITCHED) hls.off(events.AUDIO_TRACK_SWITCHED, handleAudioSwitching);
+    };
+  }, [videoLoader]);
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video) return;
+
+    const handleLoadStart = () => setState(prev => ({ ...prev, isLoading: true }));
+    const handleCanPlay = () => setState(prev => ({ ...prev, isLoading: false }));
+
+    const handleLoadedMetadata = () => {
+      setState(prev => ({ ...prev, duration: video.duration, isLoading: false }));
+      if (controlledTimeRef.current !== undefined && controlledTimeRef.current > 0) {
+        video.currentTime = controlledTimeRef.current;
+      }
+      onLoadedMetadata?.(video.duration);
+    };
+
+    const handleTimeUpdate = () => {
+      setState(prev => ({
+        ...prev,
+        currentTime: video.currentTime,
+        buffered: video.buffered
+      }));
+      reportedTimeRef.current = video.currentTime;
+      onTimeUpdate?.(video.currentTime);
+      onCurrentTimeChange?.(video.currentTime);
+    };
+
+    const handlePlay = () => {
+      setState(prev => ({ ...prev, isPlaying: true }));
+      onPlay?.();
+      onPlayingChange?.(true);
+    };
+
+    const handlePause = () => {
+      setState(prev => ({ ...prev, isPlaying: false }));
+      onPause?.();
+      onPlayingChange?.(false);
+    };
+
+    const handleEnded = () => {
+      setState(prev => ({ ...prev, isPlaying: false }));
+      // A post-roll plays first and reports the end once it's over
+      if (!adState.startPostroll()) onEndedRef.current?.();
+    };
+
+    const handleVolumeChange = () => {
+      setState(prev => ({
+        ...prev,
+        volume: video.volume,
+        isMuted: video.muted
+      }));
+      onVolumeChange?.(video.volume);
+    };
+
+    const handleRateChange = () => {
+      setState(prev => ({ ...prev, playbackRate: video.playbackRate }));
+      onPlaybackRateChange?.(video.playbackRate);
+    };
+
+    const handleError = () => {
+      const mediaError = video.error;
+      const err = new Error(mediaError ? `Video error code ${mediaError.code}` : 'Unknown video playback error');
+      setState(prev => ({ ...prev, error: err, isLoading: false }));
+      onError?.(err);
+    };
+
+    video.addEventListener('loadstart', handleLoadStart);
+    video.addEventListener('canplay', handleCanPlay);
+    video.addEventListener('loadedmetadata', handleLoadedMetadata);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('ended', handleEnded);
+    video.addEventListener('volumechange', handleVolumeChange);
+    video.addEventListener('ratechange', handleRateChange);
+    video.addEventListener('error', handleError);
+
+    return () => {
+      video.removeEventListener('loadstart', handleLoadStart);
+      video.removeEventListener('canplay', handleCanPlay);
+      video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('ended', handleEnded);
+      video.removeEventListener('volumechange', handleVolumeChange);
+      video.removeEventListener('ratechange', handleRateChange);
+      video.removeEventListener('error', handleError);
+    };
+  }, [
+    videoElement,
+    onPlay,
+    onPause,
+    onTimeUpdate,
+    onLoadedMetadata,
+    onError,
+    onCurrentTimeChange,
+    onPlayingChange,
+    onVolumeChange,
+    onPlaybackRateChange
+  ]);
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video || controlledPlaying === undefined) return;
+
+    if (controlledPlaying && video.paused) {
+      startPlayback();
+    } else if (!controlledPlaying && !video.paused) {
+      video.pause();
+    }
+  }, [controlledPlaying, videoElement]);
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video || controlledCurrentTime === undefined) return;
+
+    // Skip values that merely echo what timeupdate just reported
+    if (controlledCurrentTime === reportedTimeRef.current) return;
+    if (video.currentTime !== controlledCurrentTime && video.readyState >= 1) {
+      video.currentTime = controlledCurrentTime;
+    }
+  }, [controlledCurrentTime, videoElement]);
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video || controlledVolume === undefined) return;
+
+    const nextVolume = Math.max(0, Math.min(1, controlledVolume));
+    if (video.volume !== nextVolume) {
+      video.volume = nextVolume;
+    }
+  }, [controlledVolume, videoElement]);
+
+  useEffect(() => {
+    const video = videoElement;
+    if (!video || controlledPlaybackRate === undefined) return;
+
+    if (video.playbackRate !== controlledPlaybackRate) {
+      video.playbackRate = controlledPlaybackRate;
+    }
+  }, [controlledPlaybackRate, videoElement]);
+
+  useEffect(() => {
+    if (controlledQuality !== undefined) {
+      applyQuality(controlledQuality);
+    }
+  }, [controlledQuality, videoLoader]);
+
+  // Stored preferences only fill in values the parent isn't controlling
+  useEffect(() => {
+    const video = videoElement;
+    if (!video || !preferencesLoaded) return;
+
+    const { volume: storedVolume, muted: storedMuted } = getPreferences();
+    if (storedVolume !== undefined && controlledVolume === undefined) {
+      video.volume = Math.max(0, Math.min(1, storedVolume));
+    }
+    if (storedMuted !== undefined && !muted) {
+      video.muted = storedMuted;
+    }
+
+    // Loading a new source resets the rate, so re-apply it per source
+    const applyPlaybackRate = () => {
+      const { playbackRate: storedRate } = getPreferences();
+      if (storedRate !== undefined && controlledPlaybackRate === undefined) {
+        video.playbackRate = storedRate;
+      }
+    };
+
+    applyPlaybackRate();
+    video.addEventListener('loadedmetadata', applyPlaybackRate);
+    return () => video.removeEventListener('loadedmetadata', applyPlaybackRate);
+  }, [videoElement, preferencesLoaded]);
+
+  useEffect(() => {
+    if (!preferencesLoaded || controlledSubtitle !== undefined) return;
+
+    const { subtitleLanguage } = getPreferences();
+    if (subtitleLanguage === undefined) return;
+
+    if (subtitleLanguage === null) {
+      setState(prev => ({ ...prev, selectedSubtitle: null }));
+      return;
+    }
+
+    const index = findLanguageMatch(subtitleTracks, subtitleLanguage, track => track.language);
+    if (index >= 0) {
+      setState(prev => ({ ...prev, selectedSubtitle: index }));
+    }
+  }, [preferencesLoaded, subtitleLanguagesKey]);
+
+  useEffect(() => {
+    const hls = videoLoader?.type === 'hls' ? videoLoader.player : null;
+    const { audioLanguage } = getPreferences();
+    if (!hls || !preferencesLoaded || !audioLanguage) return;
+
+    const index = findLanguageMatch(internalState.availableAudioTracks, audioLanguage, track => track.language);
+    const track = internalState.availableAudioTracks[index];
+    if (track && track.id !== hls.audioTrack) {
+      hls.audioTrack = track.id;
+      setState(prev => ({ ...prev, selectedAudioTrack: track.id }));
+    }
+  }, [preferencesLoaded, internalState.availableAudioTracks, videoLoader]);
+
+  useEffect(() => {
+    const hls = videoLoader?.type === 'hls' ? videoLoader.player : null;
+    const { maxQualityHeight } = getPreferences();
+    if (!hls || !preferencesLoaded || controlledQuality !== undefined || !maxQualityHeight) return;
+
+    // Cap adaptive streaming at the stored height instead of pinning a level
+    let cappedIndex = -1;
+    internalState.availableQualities.forEach(quality => {
+      if (quality.height <= maxQualityHeight) cappedIndex = Math.max(cappedIndex, quality.index);
+    });
+    if (cappedIndex >= 0) {
+      hls.autoLevelCapping = cappedIndex;
+    }
+  }, [preferencesLoaded, internalState.availableQualities, videoLoader]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      const isCurrentlyFullscreen = !!(
+        document.fullscreenElement ||
+        (document as any).webkitFullscreenElement ||
+        (document as any).mozFullScreenElement ||
+        (document as any).msFullscreenElement
+      );
+      setState(prev => ({ ...prev, isFullscreen: isCurrentlyFullscreen }));
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('webkitfullscreenchange', handleFullscreenChange);
+    document.addEventListener('mozfullscreenchange', handleFullscreenChange);
+    document.addEventListener('MSFullscreenChange', handleFullscreenChange);
+
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('webkitfullscreenchange', handleFullscreenChange);
+      document.removeEventListener('mozfullscreenchange', handleFullscreenChange);
+      document.removeEventListener('MSFullscreenChange', handleFullscreenChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (hideControlsTimeoutRef.current) {
+        clearTimeout(hideControlsTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const showControls = useCallback(() => {
+    if (hideControlsTimeoutRef.current) {
+      clearTimeout(hideControlsTimeoutRef.current);
+    }
+
+    setState(prev => ({ ...prev, showControls: true }));
+
+    hideControlsTimeoutRef.current = setTimeout(() => {
+      setState(prev => (prev.isPlaying ? { ...prev, showControls: false } : prev));
+    }, CONTROLS_HIDE_DELAY_MS);
+  }, []);
+
+  const hideControls = () => {
+    if (state.isPlaying) {
+      setState(prev => ({ ...prev, showControls: false }));
+    }
+  };
+
+  const setShowSettings = (show: boolean) => {
+    setState(prev => ({ ...prev, showSettings: show }));
+  };
+
+  const toggleSettings = () => {
+    setState(prev => ({ ...prev, showSettings: !prev.showSettings }));
+  };
+
+  const setShowShortcutsHelp = (show: boolean) => {
+    setState(prev => ({ ...prev, showShortcutsHelp: show, showSettings: show ? false : prev.showSettings }));
+  };
+
+  const toggleShortcutsHelp = () => {
+    setShowShortcutsHelp(!state.showShortcutsHelp);
+  };
+
+  const setShowBookmarks = (show: boolean) => {
+    setState(prev => ({ ...prev, showBookmarks: show }));
+  };
+
+  const toggleBookmarks = () => {
+    setShowBookmarks(!state.showBookmarks);
+  };
+
+  const addBookmark = (time?: number, note?: string): Bookmark =>
+    bookmarkState.addBookmark(time ?? videoRef.current?.currentTime ?? state.currentTime, note);
+
+  const startPlayback = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    try {
+      if (video.readyState >= 2) {
+        await video.play();
+      } else {
+        const playWhenReady = () => {
+          video.removeEventListener('canplay', playWhenReady);
+          video.play().catch(error => {
+            const castedError = error as Error;
+            console.warn('Play request failed:', error);
+            setState(prev => ({ ...prev, error: castedError }));
+            onError?.(castedError);
+          });
+        };
+        video.addEventListener('canplay', playWhenReady);
+      }
+    } catch (error) {
+      const castedError = error as Error;
+      console.warn('Play request failed:', error);
+      setState(prev => ({ ...prev, error: castedError }));
+      onError?.(castedError);
+    }
+  };
+
+  const requestPlaying = async (playing: boolean) => {
+    if (controlledPlaying !== undefined) {
+      onPlayingChange?.(playing);
+      return;
+    }
+
+    if (playing) {
+      await startPlayback();
+    } else {
+      videoRef.current?.pause();
+    }
+  };
+
+  const togglePlay = () => requestPlaying(!state.isPlaying);
+
+  const toggleMute = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.muted = !video.muted;
+    updatePreferences({ muted: video.muted });
+  };
+
+  const setVolume = (volume: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const nextVolume = Math.max(0, Math.min(1, volume));
+    if (controlledVolume !== undefined) {
+      onVolumeChange?.(nextVolume);
+    } else {
+      video.volume = nextVolume;
+    }
+
+    if (nextVolume > 0 && video.muted) {
+      video.muted = false;
+    }
+    updatePreferences({ volume: nextVolume, muted: video.muted });
+  };
+
+  const seekTo = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const nextTime = Math.max(0, Math.min(state.duration, time));
+    if (controlledCurrentTime !== undefined) {
+      onCurrentTimeChange?.(nextTime);
+      return;
+    }
+
+    video.currentTime = nextTime;
+  };
+
+  const seekBy = (seconds: number) => {
+    seekTo(state.currentTime + seconds);
+  };
+
+  const stepFrame = (frames: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (state.isPlaying) requestPlaying(false);
+
+    // Land in the middle of the target frame so decoders don't round onto its neighbour
+    const rate = frameRate ?? DEFAULT_FRAME_RATE;
+    const currentFrame = Math.floor(video.currentTime * rate + 1e-6);
+    seekTo((Math.max(0, currentFrame + frames) + 0.5) / rate);
+  };
+
+  const toggleFullscreen = async () => {
+    const container = containerElement;
+    if (!container) return;
+
+    try {
+      if (state.isFullscreen) {
+        if (document.exitFullscreen) await document.exitFullscreen();
+        else if ((document as any).webkitExitFullscreen) await (document as any).webkitExitFullscreen();
+        else if ((document as any).mozCancelFullScreen) await (document as any).mozCancelFullScreen();
+        else if ((document as any).msExitFullscreen) await (document as any).msExitFullscreen();
+      } else {
+        if (container.requestFullscreen) await container.requestFullscreen();
+        else if ((container as any).webkitRequestFullscreen) await (container as any).webkitRequestFullscreen();
+        else if ((container as any).mozRequestFullScreen) await (container as any).mozRequestFullScreen();
+        else if ((container as any).msRequestFullscreen) await (container as any).msRequestFullscreen();
+      }
+    } catch (error) {
+      console.error('Error toggling fullscreen:', error);
+    }
+  };
+
+  const setPlaybackRate = (rate: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    updatePreferences({ playbackRate: rate });
+    if (controlledPlaybackRate !== undefined) {
+      onPlaybackRateChange?.(rate);
+      return;
+    }
+
+    video.playbackRate = rate;
+    setState(prev => ({ ...prev, playbackRate: rate }));
+  };
+
+  const increaseSpeed = () => {
+    const currentIndex = PLAYBACK_RATES.findIndex(rate => rate === state.playbackRate);
+    const nextRate = PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, currentIndex + 1)];
+    setPlaybackRate(nextRate);
+  };
+
+  const decreaseSpeed = () => {
+    const currentIndex = PLAYBACK_RATES.findIndex(rate => rate === state.playbackRate);
+    const nextRate = PLAYBACK_RATES[Math.max(0, currentIndex - 1)];
+    setPlaybackRate(nextRate);
+  };
+
+  const selectSubtitle = (index: number | null) => {
+    updatePreferences({ subtitleLanguage: index === null ? null : subtitleTracks[index]?.language ?? null });
+    if (controlledSubtitle === undefined) {
+      setState(prev => ({ ...prev, selectedSubtitle: index }));
+    }
+    onSelectedSubtitleChange?.(index);
+  };
+
+  const toggleSubtitles = () => {
+    selectSubtitle(state.selectedSubtitle === null ? (subtitleTracks.length > 0 ? 0 : null) : null);
+  };
+
+  const setSubtitleFontScale = (scale: number) => {
+    setState(prev => ({ ...prev, subtitleFontScale: scale }));
+    updatePreferences({ subtitleFontScale: scale });
+  };
+
+  const applyQuality = (quality: string) => {
+    const hls = videoLoader?.type === 'hls' ? videoLoader.player : null;
+    if (!hls) return false;
+
+    if (quality === 'auto') {
+      hls.currentLevel = -1;
+      hls.autoLevelCapping = -1;
+      setState(prev => ({ ...prev, selectedQuality: 'auto' }));
+      return true;
+    }
+
+    const levelIndex = Number(quality);
+    if (Number.isNaN(levelIndex)) return false;
+
+    hls.currentLevel = levelIndex;
+    setState(prev => ({ ...prev, selectedQuality: String(levelIndex) }));
+    return true;
+  };
+
+  const setQuality = (quality: string) => {
+    const level = state.availableQualities.find(option => String(option.index) === quality);
+    updatePreferences({ maxQualityHeight: level ? level.height : null });
+
+    if (controlledQuality !== undefined) {
+      onQualityChange?.(quality);
+      return;
+    }
+
+    if (applyQuality(quality)) {
+      onQualityChange?.(quality);
+    }
+  };
+
+  const setAudioTrack = (trackId: number) => {
+    const hls = videoLoader?.type === 'hls' ? videoLoader.player : null;
+    if (!hls) return;
+
+    hls.audioTrack = trackId;
+    setState(prev => ({ ...prev, selectedAudioTrack: trackId }));
+
+    const track = state.availableAudioTracks.find(option => option.id === trackId);
+    if (track?.language) {
+      updatePreferences({ audioLanguage: track.language });
+    }
+  };
+
+  const setMiniPlayer = useCallback((active: boolean) => {
+    setState(prev => (prev.isMiniPlayer === active ? prev : { ...prev, isMiniPlayer: active }));
+  }, []);
+
+  const miniPlayer = useMiniPlayer(
+    enableMiniPlayer,
+    containerElement,
+    state.isPlaying,
+    state.isFullscreen || state.isPictureInPicture,
+    state.isMiniPlayer,
+    setMiniPlayer
+  );
+
+  const setPictureInPicture = useCallback((active: boolean) => {
+    setState(prev => ({ ...prev, isPictureInPicture: active }));
+  }, []);
+
+  const pictureInPicture = usePictureInPicture(
+    pictureInPictureMode,
+    videoElement,
+    containerElement,
+    portalHost,
+    state.isPictureInPicture,
+    setPictureInPicture,
+    onEnterPictureInPicture,
+    onLeavePictureInPicture
+  );
+
+  const resumeState = useResume(resume, src, videoElement);
+
+  const closeMiniPlayer = () => {
+    miniPlayer.dismiss();
+    requestPlaying(false);
+  };
+
+  // Patches are merged into the current adjustments, null resets them all
+  const setVideoFilters = (patch: VideoFilters | null) => {
+    const next = patch ? { ...state.videoFilters, ...patch } : {};
+    if (controlledVideoFilters !== undefined) {
+      onVideoFiltersChange?.(next);
+      return;
+    }
+
+    setLocalVideoFilters(next);
+    updatePreferences({ videoFilters: next });
+  };
+
+  const setAudioSettings = (patch: Partial<AudioSettings>) => {
+    const next = { ...audioSettings, ...patch };
+    setAudioSettingsState(next);
+    updatePreferences({ audio: next });
+  };
+
+  const setDanmakuSettings = (patch: Partial<DanmakuSettings>) => {
+    const next = { ...danmakuSettings, ...patch };
+    setDanmakuSettingsState(next);
+    updatePreferences({ danmaku: next });
+  };
+
+  const postComment = (text: string, style: Pick<DanmakuComment, 'mode' | 'color'> = {}): DanmakuComment | null => {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+
+    const comment: DanmakuComment = {
+      id: `comment-${Date.now().toString(36)}-${++postedCommentCount}`,
+      time: videoRef.current?.currentTime ?? state.currentTime,
+      text: trimmed,
+      mode: style.mode ?? 'scroll',
+      color: style.color
+    };
+    setPostedComments(prev => [...prev, comment]);
+    onComment?.(comment);
+    return comment;
+  };
+
+  const setAutoSkipSegment = (type: SegmentType, autoSkip: boolean) => {
+    const next = autoSkip ? [...autoSkipTypes.filter(item => item !== type), type] : autoSkipTypes.filter(item => item !== type);
+    setAutoSkipTypes(next);
+    updatePreferences({ autoSkipSegments: next });
+  };
+
+  const seekToChapter = (index: number) => {
+    const chapter = chapters[index];
+    if (chapter) {
+      seekTo(chapter.startTime);
+    }
+  };
+
+  const actions: VideoPlayerActions = {
+    play: () => requestPlaying(true),
+    pause: () => {
+      requestPlaying(false);
+    },
+    togglePlay,
+    toggleMute,
+    setVolume,
+    seekTo,
+    seekBy,
+    toggleFullscreen,
+    setPlaybackRate,
+    increaseSpeed,
+    decreaseSpeed,
+    selectSubtitle,
+    toggleSubtitles,
+    setSubtitleFontScale,
+    setQuality,
+    setAudioTrack,
+    seekToChapter,
+    closeMiniPlayer,
+    restoreMiniPlayer: miniPlayer.restore,
+    togglePictureInPicture: pictureInPicture.toggle,
+    acceptResume: resumeState.acceptResume,
+    dismissResume: resumeState.dismissResume,
+    setLoopStart: abLoop.setLoopStart,
+    setLoopEnd: abLoop.setLoopEnd,
+    clearLoop: abLoop.clearLoop,
+    stepFrame,
+    showControls,
+    hideControls,
+    setShowSettings,
+    toggleSettings,
+    setShowShortcutsHelp,
+    toggleShortcutsHelp,
+    setVideoFit: display.setFit,
+    setZoom: display.setZoom,
+    setAspectRatio: display.setAspectRatio,
+    setVideoFilters,
+    resetVideoFilters: () => setVideoFilters(null),
+    setAudioSettings,
+    skipSegment: segmentState.skipActiveSegment,
+    setAutoSkipSegment,
+    addBookmark,
+    updateBookmark: bookmarkState.updateBookmark,
+    removeBookmark: bookmarkState.removeBookmark,
+    importBookmarks: bookmarkState.importBookmarks,
+    exportBookmarks: bookmarkState.exportBookmarks,
+    setShowBookmarks,
+    toggleBookmarks,
+    setDanmakuSettings,
+    toggleDanmaku: () => setDanmakuSettings({ enabled: !danmakuSettings.enabled }),
+    postComment,
+    skipAd: adState.skipAd,
+    clickAd: adState.clickAd
+  };
+
+  const api = usePlugins(
+    plugins,
+    {
+      ...actions,
+      getState: () => state,
+      getVideoElement: () => videoRef.current,
+      getContainerElement: () => containerElement,
+      getStreamEngine: () => videoLoader
+    },
+    videoElement,
+    videoLoader
+  );
+
+  useKeyboardShortcuts(
+    enableKeyboardShortcuts && !adState.playback,
+    {
+      togglePlay,
+      toggleMute,
+      toggleFullscreen,
+      volumeUp: () => setVolume((state.isMuted ? 0 : state.volume) + 0.05),
+      volumeDown: () => setVolume((state.isMuted ? 0 : state.volume) - 0.05),
+      seekForward: (seconds = SEEK_STEP_SECONDS) => seekBy(seconds),
+      seekBackward: (seconds = SEEK_STEP_SECONDS) => seekBy(-seconds),
+      seekToPercent: percent => seekTo((state.duration * percent) / 100),
+      increaseSpeed,
+      decreaseSpeed,
+      toggleSubtitles,
+      setLoopStart: () => abLoop.setLoopStart(),
+      setLoopEnd: () => abLoop.setLoopEnd(),
+      clearLoop: abLoop.clearLoop,
+      stepFrame,
+      // Opens the panel so the note can be typed straight away
+      addBookmark: () => {
+        if (!bookmarksEnabled) return;
+        addBookmark();
+        setShowBookmarks(true);
+      },
+      toggleBookmarks: () => {
+        if (bookmarksEnabled) toggleBookmarks();
+      },
+      toggleShortcutsHelp
+    },
+    containerRefObject as React.RefObject<HTMLElement>,
+    keymap,
+    keyboardShortcutsScope,
+    api
+  );
+
+  const gesture = useGestures(videoElement, gestures, state.isFullscreen, display.zoom > 1, {
+    togglePlay,
+    toggleFullscreen,
+    // Read the element's time so rapid taps add up before state catches up
+    seekBy: seconds => seekTo((videoRef.current?.currentTime ?? state.currentTime) + seconds),
+    seekTo,
+    setVolume,
+    getVolume: () => (videoRef.current?.muted ? 0 : videoRef.current?.volume ?? state.volume),
+    getCurrentTime: () => videoRef.current?.currentTime ?? state.currentTime,
+    getDuration: () => state.duration
+  });
+
+  const resolvedKeymap = resolveKeymap(keymap);
+
+  const currentSubtitleCue =
+    state.selectedSubtitle !== null && parsedSubtitles[state.selectedSubtitle]
+      ? getCurrentSubtitleCue(parsedSubtitles[state.selectedSubtitle], state.currentTime)
+      : null;
+
+  const getBufferedPercent = () => {
+    if (!state.buffered || state.duration === 0) return 0;
+
+    const buffered = state.buffered;
+    for (let i = 0; i < buffered.length; i++) {
+      if (buffered.start(i) <= state.currentTime && state.currentTime <= buffered.end(i)) {
+        return (buffered.end(i) / state.duration) * 100;
+      }
+    }
+
+    return 0;
+  };
+
+  return {
+    state,
+    actions,
+    api,
+    videoRef: setVideoRef,
+    mediaElementKey,
+    containerRef: setContainerRef,
+    videoElement,
+    containerElement,
+    portalHost,
+    isPictureInPictureSupported: pictureInPicture.isSupported,
+    videoLoader,
+    subtitleTracks,
+    parsedSubtitles,
+    currentSubtitleCue,
+    chapters,
+    currentChapterIndex: getChapterIndexAtTime(chapters, state.currentTime),
+    segments: segmentState.segments,
+    thumbnails,
+    heatmap,
+    resumeTime: resumeState.resumeTime,
+    frameRate,
+    // 'b' shouldn't show up in the shortcut help when there are no bookmarks to add
+    keymap: Object.keys(resolvedKeymap).reduce<Keymap>((filtered, combo) => {
+      const binding = resolvedKeymap[combo];
+      if (bookmarksEnabled || (binding !== 'addBookmark' && binding !== 'toggleBookmarks')) filtered[combo] = binding;
+      return filtered;
+    }, {}),
+    gesture,
+    videoStyle: { ...display.videoStyle, filter: getCssFilter(state.videoFilters, videoFilterIdRef.current) },
+    videoFilterId: videoFilterIdRef.current,
+    frameAspectRatio: display.frameAspectRatio,
+    bookmarksEnabled,
+    danmaku,
+    ownDanmakuIds,
+    danmakuEnabled,
+    adBreaks: adState.adBreaks,
+    adVideoRef: adState.adVideoRef,
+    adVideoElement: adState.adVideoElement,
+    preferences,
+    updatePreferences,
+    bufferedPercent: getBufferedPercent(),
+    progressPercent: (state.currentTime / (state.duration || 1)) * 100
+  };
+};
@@ -1,7 +1,52 @@
 export { VideoPlayer as default, VideoPlayer } from './VideoPlayer';
+export { useVideoPlayer, PLAYBACK_RATES, SEEK_STEP_SECONDS, DEFAULT_DANMAKU_SETTINGS } from './hooks/useVideoPlayer';
+export type { UseVideoPlayerOptions, UseVideoPlayerResult } from './hooks/useVideoPlayer';
+export { EQ_FREQUENCIES, EQ_PRESETS, DEFAULT_AUDIO_SETTINGS, MAX_VOLUME_BOOST } from './hooks/useAudioProcessing';
+export { DEFAULT_KEYMAP, resolveKeymap, normalizeKeyCombo } from './hooks/useKeyboardShortcuts';
 export type { 
   VideoPlayerProps, 
   VideoPlayerState, 
+  VideoPlayerHandle,
+  VideoPlayerActions,
+  VideoPlayerApi,
+  VideoPlayerPlugin,
+  PlaylistItem,
+  RepeatMode,
+  Chapter,
+  ThumbnailCue,
+  MiniPlayerCorner,
+  PictureInPictureMode,
+  StorageAdapter,
+  ResumeOptions,
+  ViewerPreferences,
+  ABLoopOptions,
+  ABLoopRegion,
+  TimeFormat,
+  KeyboardAction,
+  Keymap,
+  KeymapHandler,
+  KeymapBinding,
+  KeyboardShortcutsScope,
+  GestureOptions,
+  GestureFeedback,
+  VideoFit,
+  VideoFilters,
+  AudioSettings,
+  SegmentType,
+  VideoSegment,
+  Bookmark,
+  AdsOptions,
+  AdBreakOffset,
+  AdBreakSource,
+  AdBreak,
+  AdFetcher,
+  AdPlayback,
+  VastAd,
+  VastMediaFile,
+  VastTrackingEvent,
+  DanmakuMode,
+  DanmakuComment,
+  DanmakuSettings,
   SubtitleTrack, 
   SubtitleCue, 
   ParsedSubtitles,
@@ -26,7 +71,33 @@ export type {
   ASSEvent, 
   ASSSubtitle 
 } from './utils/assParser';
-export { formatTime, parseTimeToSeconds } from './utils/formatTime';
+export { formatTime, parseTimeToSeconds, formatTimecode, parseTimecodeToSeconds, isDropFrameRate, DEFAULT_FRAME_RATE } from './utils/formatTime';
+export {
+  parseChapters,
+  parseChaptersFromString,
+  normalizeChapters,
+  getChapterIndexAtTime
+} from './utils/chapters';
+export { parseThumbnailsVTT, loadThumbnails, findThumbnail } from './utils/thumbnails';
+export { parseBookmarks, serializeBookmarks, mergeBookmarks } from './utils/bookmarks';
+export {
+  parseVAST,
+  parseVMAP,
+  loadVAST,
+  loadVMAP,
+  resolveAdBreakTime,
+  selectMediaFile,
+  replaceVastMacros,
+  fireTracking,
+  defaultAdFetcher,
+  VAST_ERROR_CODES
+} from './utils/vast';
+export type { VastDocument, VastWrapper, VastMacros } from './utils/vast';
+export { layoutDanmaku, DANMAKU_SCROLL_SECONDS, DANMAKU_FIXED_SECONDS } from './utils/danmaku';
+export type { DanmakuItem, DanmakuLayoutOptions } from './utils/danmaku';
+export { smoothHeatmap, findHeatmapPeaks, getHeatmapPath, loadHeatmap } from './utils/heatmap';
+export { getDefaultStorage } from './utils/storage';
+export { DEFAULT_VIDEO_FILTERS, getCssFilter, getSharpenKernel } from './utils/videoFilters';
 export { 
   loadVideo, 
   getSupportedFormats, 
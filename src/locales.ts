@@ -1,3 +1,5 @@
+import { KeyboardAction, SegmentType } from './types';
+
 export interface Translations {
   play: string;
   pause: string;
@@ -19,6 +21,84 @@ export interface Translations {
   quality: string;
   audioTrack: string;
   auto: string;
+  previous: string;
+  next: string;
+  upNext: string;
+  playNow: string;
+  cancel: string;
+  repeat: string;
+  repeatOne: string;
+  repeatAll: string;
+  shuffle: string;
+  on: string;
+  off: string;
+  chapters: string;
+  restorePlayer: string;
+  closeMiniPlayer: string;
+  pictureInPicture: string;
+  exitPictureInPicture: string;
+  resumeFrom: string;
+  resume: string;
+  startOver: string;
+  subtitleSize: string;
+  shortcutsHelp: string;
+  close: string;
+  customAction: string;
+  displayMode: string;
+  fitContain: string;
+  fitCover: string;
+  fitFill: string;
+  zoom: string;
+  aspectRatio: string;
+  picture: string;
+  brightness: string;
+  contrast: string;
+  saturation: string;
+  hue: string;
+  gamma: string;
+  sharpen: string;
+  reset: string;
+  volumeBoost: string;
+  nightMode: string;
+  equalizer: string;
+  eqFlat: string;
+  eqDialogue: string;
+  eqCustom: string;
+  balance: string;
+  monoAudio: string;
+  swapChannels: string;
+  muteChannel: string;
+  leftChannel: string;
+  rightChannel: string;
+  shortcutActions: Record<KeyboardAction, string>;
+  segmentNames: Record<SegmentType, string>;
+  skipSegment: Record<SegmentType, string>;
+  autoSkipSegment: Record<SegmentType, string>;
+  bookmarks: string;
+  addBookmark: string;
+  editBookmark: string;
+  deleteBookmark: string;
+  bookmarkNotePlaceholder: string;
+  noBookmarks: string;
+  importBookmarks: string;
+  exportBookmarks: string;
+  importBookmarksFailed: string;
+  showComments: string;
+  hideComments: string;
+  commentPlaceholder: string;
+  sendComment: string;
+  commentMode: string;
+  commentScroll: string;
+  commentTop: string;
+  commentBottom: string;
+  commentColor: string;
+  commentDensity: string;
+  commentOpacity: string;
+  advertisement: string;
+  adOfCount: string;
+  skipAd: string;
+  skipAdIn: string;
+  learnMore: string;
 }
 
 export const translations: Record<string, Translations> = {
@@ -42,7 +122,124 @@ export const translations: Record<string, Translations> = {
     keyboardShortcuts: 'Keyboard shortcuts available',
     quality: 'Quality',
     audioTrack: 'Audio Track',
-    auto: 'Auto'
+    auto: 'Auto',
+    previous: 'Previous',
+    next: 'Next',
+    upNext: 'Up next',
+    playNow: 'Play now',
+    cancel: 'Cancel',
+    repeat: 'Repeat',
+    repeatOne: 'One',
+    repeatAll: 'All',
+    shuffle: 'Shuffle',
+    on: 'On',
+    off: 'Off',
+    chapters: 'Chapters',
+    restorePlayer: 'Back to player',
+    closeMiniPlayer: 'Close mini player',
+    pictureInPicture: 'Picture-in-picture',
+    exitPictureInPicture: 'Exit picture-in-picture',
+    resumeFrom: 'Resume from {time}?',
+    resume: 'Resume',
+    startOver: 'Start over',
+    subtitleSize: 'Subtitle Size',
+    shortcutsHelp: 'Keyboard shortcuts',
+    close: 'Close',
+    customAction: 'Custom action',
+    displayMode: 'Display',
+    fitContain: 'Fit',
+    fitCover: 'Crop to fill',
+    fitFill: 'Stretch',
+    zoom: 'Zoom',
+    aspectRatio: 'Aspect ratio',
+    picture: 'Picture',
+    brightness: 'Brightness',
+    contrast: 'Contrast',
+    saturation: 'Saturation',
+    hue: 'Hue',
+    gamma: 'Gamma',
+    sharpen: 'Sharpen',
+    reset: 'Reset',
+    volumeBoost: 'Volume boost',
+    nightMode: 'Night mode',
+    equalizer: 'Equalizer',
+    eqFlat: 'Flat',
+    eqDialogue: 'Dialogue boost',
+    eqCustom: 'Custom',
+    balance: 'Balance',
+    monoAudio: 'Mono audio',
+    swapChannels: 'Swap channels',
+    muteChannel: 'Mute channel',
+    leftChannel: 'Left',
+    rightChannel: 'Right',
+    shortcutActions: {
+      togglePlay: 'Play / pause',
+      toggleMute: 'Mute / unmute',
+      toggleFullscreen: 'Toggle fullscreen',
+      volumeUp: 'Volume up',
+      volumeDown: 'Volume down',
+      seekForward: 'Seek forward 10 seconds',
+      seekBackward: 'Seek backward 10 seconds',
+      seekForwardLong: 'Seek forward 30 seconds',
+      seekBackwardLong: 'Seek backward 30 seconds',
+      seekToStart: 'Go to start',
+      seekToEnd: 'Go to end',
+      seekToPercent: 'Jump to 0%–90%',
+      increaseSpeed: 'Increase speed',
+      decreaseSpeed: 'Decrease speed',
+      nextFrame: 'Next frame',
+      previousFrame: 'Previous frame',
+      toggleSubtitles: 'Toggle subtitles',
+      setLoopStart: 'Set loop start',
+      setLoopEnd: 'Set loop end',
+      clearLoop: 'Clear loop',
+      addBookmark: 'Add bookmark',
+      toggleBookmarks: 'Show bookmarks',
+      toggleShortcutsHelp: 'Show keyboard shortcuts'
+    },
+    segmentNames: {
+      intro: 'Intro',
+      outro: 'Credits',
+      recap: 'Recap',
+      preview: 'Preview'
+    },
+    skipSegment: {
+      intro: 'Skip intro',
+      outro: 'Skip credits',
+      recap: 'Skip recap',
+      preview: 'Skip preview'
+    },
+    autoSkipSegment: {
+      intro: 'Auto-skip intros',
+      outro: 'Auto-skip credits',
+      recap: 'Auto-skip recaps',
+      preview: 'Auto-skip previews'
+    },
+    bookmarks: 'Bookmarks',
+    addBookmark: 'Add bookmark',
+    editBookmark: 'Edit note',
+    deleteBookmark: 'Delete bookmark',
+    bookmarkNotePlaceholder: 'Add a note…',
+    noBookmarks: 'No bookmarks yet. Press B to add one.',
+    importBookmarks: 'Import',
+    exportBookmarks: 'Export',
+    importBookmarksFailed: 'That file doesn\'t contain valid bookmarks.',
+    showComments: 'Show comments',
+    hideComments: 'Hide comments',
+    commentPlaceholder: 'Send a comment…',
+    sendComment: 'Send',
+    commentMode: 'Comment position',
+    commentScroll: 'Scrolling',
+    commentTop: 'Top',
+    commentBottom: 'Bottom',
+    commentColor: 'Comment color',
+    commentDensity: 'Comment area',
+    commentOpacity: 'Comment opacity',
+    advertisement: 'Ad',
+    adOfCount: 'Ad {index} of {count}',
+    skipAd: 'Skip ad',
+    skipAdIn: 'Skip in {seconds}',
+    learnMore: 'Learn more'
   },
   es: {
     play: 'Reproducir',
@@ -64,7 +261,124 @@ export const translations: Record<string, Translations> = {
     keyboardShortcuts: 'Atajos de teclado disponibles',
     quality: 'Calidad',
     audioTrack: 'Pista de audio',
-    auto: 'Auto'
+    auto: 'Auto',
+    previous: 'Anterior',
+    next: 'Siguiente',
+    upNext: 'A continuación',
+    playNow: 'Reproducir ahora',
+    cancel: 'Cancelar',
+    repeat: 'Repetir',
+    repeatOne: 'Uno',
+    repeatAll: 'Todos',
+    shuffle: 'Aleatorio',
+    on: 'Sí',
+    off: 'No',
+    chapters: 'Capítulos',
+    restorePlayer: 'Volver al reproductor',
+    closeMiniPlayer: 'Cerrar minirreproductor',
+    pictureInPicture: 'Imagen en imagen',
+    exitPictureInPicture: 'Salir de imagen en imagen',
+    resumeFrom: '¿Continuar desde {time}?',
+    resume: 'Continuar',
+    startOver: 'Empezar de nuevo',
+    subtitleSize: 'Tamaño de subtítulos',
+    shortcutsHelp: 'Atajos de teclado',
+    close: 'Cerrar',
+    customAction: 'Acción personalizada',
+    displayMode: 'Visualización',
+    fitContain: 'Ajustar',
+    fitCover: 'Recortar',
+    fitFill: 'Estirar',
+    zoom: 'Zoom',
+    aspectRatio: 'Relación de aspecto',
+    picture: 'Imagen',
+    brightness: 'Brillo',
+    contrast: 'Contraste',
+    saturation: 'Saturación',
+    hue: 'Tono',
+    gamma: 'Gamma',
+    sharpen: 'Nitidez',
+    reset: 'Restablecer',
+    volumeBoost: 'Amplificar volumen',
+    nightMode: 'Modo nocturno',
+    equalizer: 'Ecualizador',
+    eqFlat: 'Plano',
+    eqDialogue: 'Realzar diálogos',
+    eqCustom: 'Personalizado',
+    balance: 'Balance',
+    monoAudio: 'Audio mono',
+    swapChannels: 'Intercambiar canales',
+    muteChannel: 'Silenciar canal',
+    leftChannel: 'Izquierdo',
+    rightChannel: 'Derecho',
+    shortcutActions: {
+      togglePlay: 'Reproducir / pausar',
+      toggleMute: 'Silenciar / activar sonido',
+      toggleFullscreen: 'Pantalla completa',
+      volumeUp: 'Subir volumen',
+      volumeDown: 'Bajar volumen',
+      seekForward: 'Avanzar 10 segundos',
+      seekBackward: 'Retroceder 10 segundos',
+      seekForwardLong: 'Avanzar 30 segundos',
+      seekBackwardLong: 'Retroceder 30 segundos',
+      seekToStart: 'Ir al inicio',
+      seekToEnd: 'Ir al final',
+      seekToPercent: 'Saltar al 0%–90%',
+      increaseSpeed: 'Aumentar velocidad',
+      decreaseSpeed: 'Reducir velocidad',
+      nextFrame: 'Fotograma siguiente',
+      previousFrame: 'Fotograma anterior',
+      toggleSubtitles: 'Activar subtítulos',
+      setLoopStart: 'Marcar inicio del bucle',
+      setLoopEnd: 'Marcar fin del bucle',
+      clearLoop: 'Quitar bucle',
+      addBookmark: 'Añadir marcador',
+      toggleBookmarks: 'Mostrar marcadores',
+      toggleShortcutsHelp: 'Mostrar atajos de teclado'
+    },
+    segmentNames: {
+      intro: 'Intro',
+      outro: 'Créditos',
+      recap: 'Resumen',
+      preview: 'Avance'
+    },
+    skipSegment: {
+      intro: 'Saltar intro',
+      outro: 'Saltar créditos',
+      recap: 'Saltar resumen',
+      preview: 'Saltar avance'
+    },
+    autoSkipSegment: {
+      intro: 'Saltar intros automáticamente',
+      outro: 'Saltar créditos automáticamente',
+      recap: 'Saltar resúmenes automáticamente',
+      preview: 'Saltar avances automáticamente'
+    },
+    bookmarks: 'Marcadores',
+    addBookmark: 'Añadir marcador',
+    editBookmark: 'Editar nota',
+    deleteBookmark: 'Eliminar marcador',
+    bookmarkNotePlaceholder: 'Añade una nota…',
+    noBookmarks: 'Aún no hay marcadores. Pulsa B para añadir uno.',
+    importBookmarks: 'Importar',
+    exportBookmarks: 'Exportar',
+    importBookmarksFailed: 'Ese archivo no contiene marcadores válidos.',
+    showComments: 'Mostrar comentarios',
+    hideComments: 'Ocultar comentarios',
+    commentPlaceholder: 'Envía un comentario…',
+    sendComment: 'Enviar',
+    commentMode: 'Posición del comentario',
+    commentScroll: 'Desplazamiento',
+    commentTop: 'Arriba',
+    commentBottom: 'Abajo',
+    commentColor: 'Color del comentario',
+    commentDensity: 'Área de comentarios',
+    commentOpacity: 'Opacidad de comentarios',
+    advertisement: 'Anuncio',
+    adOfCount: 'Anuncio {index} de {count}',
+    skipAd: 'Omitir anuncio',
+    skipAdIn: 'Omitir en {seconds}',
+    learnMore: 'Más información'
   },
   fr: {
     play: 'Lire',
@@ -86,7 +400,124 @@ export const translations: Record<string, Translations> = {
     keyboardShortcuts: 'Raccourcis clavier disponibles',
     quality: 'Qualité',
     audioTrack: 'Piste audio',
-    auto: 'Auto'
+    auto: 'Auto',
+    previous: 'Précédent',
+    next: 'Suivant',
+    upNext: 'À suivre',
+    playNow: 'Lire maintenant',
+    cancel: 'Annuler',
+    repeat: 'Répéter',
+    repeatOne: 'Un',
+    repeatAll: 'Tous',
+    shuffle: 'Aléatoire',
+    on: 'Activé',
+    off: 'Désactivé',
+    chapters: 'Chapitres',
+    restorePlayer: 'Retour au lecteur',
+    closeMiniPlayer: 'Fermer le mini-lecteur',
+    pictureInPicture: 'Image dans l’image',
+    exitPictureInPicture: 'Quitter l’image dans l’image',
+    resumeFrom: 'Reprendre à {time} ?',
+    resume: 'Reprendre',
+    startOver: 'Recommencer',
+    subtitleSize: 'Taille des sous-titres',
+    shortcutsHelp: 'Raccourcis clavier',
+    close: 'Fermer',
+    customAction: 'Action personnalisée',
+    displayMode: 'Affichage',
+    fitContain: 'Ajuster',
+    fitCover: 'Rogner',
+    fitFill: 'Étirer',
+    zoom: 'Zoom',
+    aspectRatio: 'Proportions',
+    picture: 'Image',
+    brightness: 'Luminosité',
+    contrast: 'Contraste',
+    saturation: 'Saturation',
+    hue: 'Teinte',
+    gamma: 'Gamma',
+    sharpen: 'Netteté',
+    reset: 'Réinitialiser',
+    volumeBoost: 'Amplification',
+    nightMode: 'Mode nuit',
+    equalizer: 'Égaliseur',
+    eqFlat: 'Neutre',
+    eqDialogue: 'Dialogues renforcés',
+    eqCustom: 'Personnalisé',
+    balance: 'Balance',
+    monoAudio: 'Audio mono',
+    swapChannels: 'Inverser les canaux',
+    muteChannel: 'Couper un canal',
+    leftChannel: 'Gauche',
+    rightChannel: 'Droit',
+    shortcutActions: {
+      togglePlay: 'Lecture / pause',
+      toggleMute: 'Couper / rétablir le son',
+      toggleFullscreen: 'Plein écran',
+      volumeUp: 'Augmenter le volume',
+      volumeDown: 'Baisser le volume',
+      seekForward: 'Avancer de 10 secondes',
+      seekBackward: 'Reculer de 10 secondes',
+      seekForwardLong: 'Avancer de 30 secondes',
+      seekBackwardLong: 'Reculer de 30 secondes',
+      seekToStart: 'Aller au début',
+      seekToEnd: 'Aller à la fin',
+      seekToPercent: 'Aller à 0 %–90 %',
+      increaseSpeed: 'Accélérer',
+      decreaseSpeed: 'Ralentir',
+      nextFrame: 'Image suivante',
+      previousFrame: 'Image précédente',
+      toggleSubtitles: 'Afficher les sous-titres',
+      setLoopStart: 'Définir le début de la boucle',
+      setLoopEnd: 'Définir la fin de la boucle',
+      clearLoop: 'Supprimer la boucle',
+      addBookmark: 'Ajouter un signet',
+      toggleBookmarks: 'Afficher les signets',
+      toggleShortcutsHelp: 'Afficher les raccourcis clavier'
+    },
+    segmentNames: {
+      intro: 'Générique de début',
+      outro: 'Générique de fin',
+      recap: 'Résumé',
+      preview: 'Bande-annonce'
+    },
+    skipSegment: {
+      intro: 'Passer le générique',
+      outro: 'Passer le générique de fin',
+      recap: 'Passer le résumé',
+      preview: 'Passer la bande-annonce'
+    },
+    autoSkipSegment: {
+      intro: 'Passer les génériques de début',
+      outro: 'Passer les génériques de fin',
+      recap: 'Passer les résumés',
+      preview: 'Passer les bandes-annonces'
+    },
+    bookmarks: 'Signets',
+    addBookmark: 'Ajouter un signet',
+    editBookmark: 'Modifier la note',
+    deleteBookmark: 'Supprimer le signet',
+    bookmarkNotePlaceholder: 'Ajouter une note…',
+    noBookmarks: 'Aucun signet pour l\'instant. Appuyez sur B pour en ajouter un.',
+    importBookmarks: 'Importer',
+    exportBookmarks: 'Exporter',
+    importBookmarksFailed: 'Ce fichier ne contient pas de signets valides.',
+    showComments: 'Afficher les commentaires',
+    hideComments: 'Masquer les commentaires',
+    commentPlaceholder: 'Envoyer un commentaire…',
+    sendComment: 'Envoyer',
+    commentMode: 'Position du commentaire',
+    commentScroll: 'Défilant',
+    commentTop: 'Haut',
+    commentBottom: 'Bas',
+    commentColor: 'Couleur du commentaire',
+    commentDensity: 'Zone des commentaires',
+    commentOpacity: 'Opacité des commentaires',
+    advertisement: 'Annonce',
+    adOfCount: 'Annonce {index} sur {count}',
+    skipAd: 'Ignorer l\'annonce',
+    skipAdIn: 'Ignorer dans {seconds}',
+    learnMore: 'En savoir plus'
   },
   de: {
     play: 'Abspielen',
@@ -108,7 +539,124 @@ export const translations: Record<string, Translations> = {
     keyboardShortcuts: 'Tastenkürzel verfügbar',
     quality: 'Qualität',
     audioTrack: 'Audiospur',
-    auto: 'Auto'
+    auto: 'Auto',
+    previous: 'Zurück',
+    next: 'Weiter',
+    upNext: 'Als Nächstes',
+    playNow: 'Jetzt abspielen',
+    cancel: 'Abbrechen',
+    repeat: 'Wiederholen',
+    repeatOne: 'Einen',
+    repeatAll: 'Alle',
+    shuffle: 'Zufällig',
+    on: 'An',
+    off: 'Aus',
+    chapters: 'Kapitel',
+    restorePlayer: 'Zurück zum Player',
+    closeMiniPlayer: 'Miniplayer schließen',
+    pictureInPicture: 'Bild-im-Bild',
+    exitPictureInPicture: 'Bild-im-Bild beenden',
+    resumeFrom: 'Ab {time} fortsetzen?',
+    resume: 'Fortsetzen',
+    startOver: 'Von vorne',
+    subtitleSize: 'Untertitelgröße',
+    shortcutsHelp: 'Tastenkürzel',
+    close: 'Schließen',
+    customAction: 'Eigene Aktion',
+    displayMode: 'Anzeige',
+    fitContain: 'Einpassen',
+    fitCover: 'Zuschneiden',
+    fitFill: 'Strecken',
+    zoom: 'Zoom',
+    aspectRatio: 'Seitenverhältnis',
+    picture: 'Bild',
+    brightness: 'Helligkeit',
+    contrast: 'Kontrast',
+    saturation: 'Sättigung',
+    hue: 'Farbton',
+    gamma: 'Gamma',
+    sharpen: 'Schärfe',
+    reset: 'Zurücksetzen',
+    volumeBoost: 'Lautstärke-Boost',
+    nightMode: 'Nachtmodus',
+    equalizer: 'Equalizer',
+    eqFlat: 'Neutral',
+    eqDialogue: 'Sprache hervorheben',
+    eqCustom: 'Benutzerdefiniert',
+    balance: 'Balance',
+    monoAudio: 'Mono-Audio',
+    swapChannels: 'Kanäle tauschen',
+    muteChannel: 'Kanal stummschalten',
+    leftChannel: 'Links',
+    rightChannel: 'Rechts',
+    shortcutActions: {
+      togglePlay: 'Wiedergabe / Pause',
+      toggleMute: 'Stumm / Ton an',
+      toggleFullscreen: 'Vollbild umschalten',
+      volumeUp: 'Lauter',
+      volumeDown: 'Leiser',
+      seekForward: '10 Sekunden vorspulen',
+      seekBackward: '10 Sekunden zurückspulen',
+      seekForwardLong: '30 Sekunden vorspulen',
+      seekBackwardLong: '30 Sekunden zurückspulen',
+      seekToStart: 'Zum Anfang',
+      seekToEnd: 'Zum Ende',
+      seekToPercent: 'Zu 0 %–90 % springen',
+      increaseSpeed: 'Schneller',
+      decreaseSpeed: 'Langsamer',
+      nextFrame: 'Nächstes Bild',
+      previousFrame: 'Vorheriges Bild',
+      toggleSubtitles: 'Untertitel umschalten',
+      setLoopStart: 'Schleifenanfang setzen',
+      setLoopEnd: 'Schleifenende setzen',
+      clearLoop: 'Schleife entfernen',
+      addBookmark: 'Lesezeichen hinzufügen',
+      toggleBookmarks: 'Lesezeichen anzeigen',
+      toggleShortcutsHelp: 'Tastenkürzel anzeigen'
+    },
+    segmentNames: {
+      intro: 'Intro',
+      outro: 'Abspann',
+      recap: 'Rückblick',
+      preview: 'Vorschau'
+    },
+    skipSegment: {
+      intro: 'Intro überspringen',
+      outro: 'Abspann überspringen',
+      recap: 'Rückblick überspringen',
+      preview: 'Vorschau überspringen'
+    },
+    autoSkipSegment: {
+      intro: 'Intros automatisch überspringen',
+      outro: 'Abspann automatisch überspringen',
+      recap: 'Rückblicke automatisch überspringen',
+      preview: 'Vorschauen automatisch überspringen'
+    },
+    bookmarks: 'Lesezeichen',
+    addBookmark: 'Lesezeichen hinzufügen',
+    editBookmark: 'Notiz bearbeiten',
+    deleteBookmark: 'Lesezeichen löschen',
+    bookmarkNotePlaceholder: 'Notiz hinzufügen…',
+    noBookmarks: 'Noch keine Lesezeichen. Drücke B, um eines hinzuzufügen.',
+    importBookmarks: 'Importieren',
+    exportBookmarks: 'Exportieren',
+    importBookmarksFailed: 'Diese Datei enthält keine gültigen Lesezeichen.',
+    showComments: 'Kommentare anzeigen',
+    hideComments: 'Kommentare ausblenden',
+    commentPlaceholder: 'Kommentar senden…',
+    sendComment: 'Senden',
+    commentMode: 'Kommentarposition',
+    commentScroll: 'Laufend',
+    commentTop: 'Oben',
+    commentBottom: 'Unten',
+    commentColor: 'Kommentarfarbe',
+    commentDensity: 'Kommentarbereich',
+    commentOpacity: 'Kommentar-Deckkraft',
+    advertisement: 'Werbung',
+    adOfCount: 'Werbung {index} von {count}',
+    skipAd: 'Werbung überspringen',
+    skipAdIn: 'Überspringen in {seconds}',
+    learnMore: 'Mehr erfahren'
   },
   nl: {
     play: 'Afspelen',
@@ -130,7 +678,124 @@ export const translations: Record<string, Translations> = {
     keyboardShortcuts: 'Sneltoetsen beschikbaar',
     quality: 'Kwaliteit',
     audioTrack: 'Audiotrack',
-    auto: 'Auto'
+    auto: 'Auto',
+    previous: 'Vorige',
+    next: 'Volgende',
+    upNext: 'Hierna',
+    playNow: 'Nu afspelen',
+    cancel: 'Annuleren',
+    repeat: 'Herhalen',
+    repeatOne: 'Eén',
+    repeatAll: 'Alles',
+    shuffle: 'Willekeurig',
+    on: 'Aan',
+    off: 'Uit',
+    chapters: 'Hoofdstukken',
+    restorePlayer: 'Terug naar speler',
+    closeMiniPlayer: 'Minispeler sluiten',
+    pictureInPicture: 'Beeld-in-beeld',
+    exitPictureInPicture: 'Beeld-in-beeld verlaten',
+    resumeFrom: 'Verdergaan vanaf {time}?',
+    resume: 'Verdergaan',
+    startOver: 'Opnieuw beginnen',
+    subtitleSize: 'Ondertitelgrootte',
+    shortcutsHelp: 'Sneltoetsen',
+    close: 'Sluiten',
+    customAction: 'Eigen actie',
+    displayMode: 'Weergave',
+    fitContain: 'Passend',
+    fitCover: 'Bijsnijden',
+    fitFill: 'Uitrekken',
+    zoom: 'Zoom',
+    aspectRatio: 'Beeldverhouding',
+    picture: 'Beeld',
+    brightness: 'Helderheid',
+    contrast: 'Contrast',
+    saturation: 'Verzadiging',
+    hue: 'Tint',
+    gamma: 'Gamma',
+    sharpen: 'Verscherpen',
+    reset: 'Herstellen',
+    volumeBoost: 'Volumeversterking',
+    nightMode: 'Nachtmodus',
+    equalizer: 'Equalizer',
+    eqFlat: 'Vlak',
+    eqDialogue: 'Dialoog versterken',
+    eqCustom: 'Aangepast',
+    balance: 'Balans',
+    monoAudio: 'Mono-audio',
+    swapChannels: 'Kanalen wisselen',
+    muteChannel: 'Kanaal dempen',
+    leftChannel: 'Links',
+    rightChannel: 'Rechts',
+    shortcutActions: {
+      togglePlay: 'Afspelen / pauzeren',
+      toggleMute: 'Dempen / geluid aan',
+      toggleFullscreen: 'Volledig scherm',
+      volumeUp: 'Volume omhoog',
+      volumeDown: 'Volume omlaag',
+      seekForward: '10 seconden vooruit',
+      seekBackward: '10 seconden terug',
+      seekForwardLong: '30 seconden vooruit',
+      seekBackwardLong: '30 seconden terug',
+      seekToStart: 'Naar begin',
+      seekToEnd: 'Naar einde',
+      seekToPercent: 'Naar 0%–90% springen',
+      increaseSpeed: 'Sneller',
+      decreaseSpeed: 'Langzamer',
+      nextFrame: 'Volgend frame',
+      previousFrame: 'Vorig frame',
+      toggleSubtitles: 'Ondertiteling aan/uit',
+      setLoopStart: 'Lusbegin instellen',
+      setLoopEnd: 'Luseinde instellen',
+      clearLoop: 'Lus wissen',
+      addBookmark: 'Bladwijzer toevoegen',
+      toggleBookmarks: 'Bladwijzers tonen',
+      toggleShortcutsHelp: 'Sneltoetsen tonen'
+    },
+    segmentNames: {
+      intro: 'Intro',
+      outro: 'Aftiteling',
+      recap: 'Samenvatting',
+      preview: 'Voorvertoning'
+    },
+    skipSegment: {
+      intro: 'Intro overslaan',
+      outro: 'Aftiteling overslaan',
+      recap: 'Samenvatting overslaan',
+      preview: 'Voorvertoning overslaan'
+    },
+    autoSkipSegment: {
+      intro: 'Intro\'s automatisch overslaan',
+      outro: 'Aftiteling automatisch overslaan',
+      recap: 'Samenvattingen automatisch overslaan',
+      preview: 'Voorvertoningen automatisch overslaan'
+    },
+    bookmarks: 'Bladwijzers',
+    addBookmark: 'Bladwijzer toevoegen',
+    editBookmark: 'Notitie bewerken',
+    deleteBookmark: 'Bladwijzer verwijderen',
+    bookmarkNotePlaceholder: 'Voeg een notitie toe…',
+    noBookmarks: 'Nog geen bladwijzers. Druk op B om er een toe te voegen.',
+    importBookmarks: 'Importeren',
+    exportBookmarks: 'Exporteren',
+    importBookmarksFailed: 'Dit bestand bevat geen geldige bladwijzers.',
+    showComments: 'Reacties tonen',
+    hideComments: 'Reacties verbergen',
+    commentPlaceholder: 'Stuur een reactie…',
+    sendComment: 'Versturen',
+    commentMode: 'Positie van reactie',
+    commentScroll: 'Scrollend',
+    commentTop: 'Boven',
+    commentBottom: 'Onder',
+    commentColor: 'Kleur van reactie',
+    commentDensity: 'Reactiegebied',
+    commentOpacity: 'Dekking van reacties',
+    advertisement: 'Advertentie',
+    adOfCount: 'Advertentie {index} van {count}',
+    skipAd: 'Advertentie overslaan',
+    skipAdIn: 'Overslaan over {seconds}',
+    learnMore: 'Meer informatie'
   }
 };
 
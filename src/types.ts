@@ -1,5 +1,7 @@
+import type { VideoLoaderResult } from './utils/videoLoader';
+
 export interface VideoPlayerProps {
-  src: string;
+  src?: string; // required unless a playlist is given
   poster?: string;
   width?: string | number;
   height?: string | number;
@@ -33,8 +35,317 @@ export interface VideoPlayerProps {
   ambient?: boolean; // enable ambilight effect
   ambientIntensity?: number; // 0-1
   ambientBlur?: number; // px
+  // Controlled playback state (leave undefined to let the player manage it)
+  currentTime?: number;
+  playing?: boolean;
+  volume?: number;
+  playbackRate?: number;
+  selectedSubtitle?: number | null;
+  selectedQuality?: string;
+  onCurrentTimeChange?: (currentTime: number) => void;
+  onPlayingChange?: (playing: boolean) => void;
+  onVolumeChange?: (volume: number) => void;
+  onPlaybackRateChange?: (rate: number) => void;
+  onSelectedSubtitleChange?: (index: number | null) => void;
+  plugins?: VideoPlayerPlugin[];
+  // Playlist options (playlist items override src, poster and subtitles)
+  playlist?: PlaylistItem[];
+  playlistStartIndex?: number;
+  repeatMode?: RepeatMode;
+  shuffle?: boolean;
+  autoAdvance?: boolean;
+  autoAdvanceDelay?: number; // seconds, 0 advances immediately
+  preloadNext?: boolean;
+  onPlaylistItemChange?: (index: number, item: PlaylistItem) => void;
+  chapters?: Chapter[]; // overrides any kind="chapters" track
+  miniPlayerCorner?: MiniPlayerCorner;
+  enablePictureInPicture?: boolean;
+  pictureInPictureMode?: PictureInPictureMode; // 'auto' prefers Document PiP so custom subtitles stay visible
+  onEnterPictureInPicture?: (mode: 'video' | 'document') => void;
+  onLeavePictureInPicture?: () => void;
+  resume?: boolean | ResumeOptions;
+  persistPreferences?: boolean; // remember volume, speed, languages and quality between sessions
+  preferencesStorage?: StorageAdapter;
+  preferencesKey?: string;
+  abLoop?: ABLoopOptions;
+  onABLoopChange?: (region: ABLoopRegion | null) => void;
+  onABLoopRepeat?: (repeatCount: number) => void;
+  frameRate?: number; // detected with requestVideoFrameCallback when omitted
+  timeFormat?: TimeFormat;
+  keymap?: Keymap; // merged over the default bindings, e.g. { 'shift+n': 'seekForward', k: null }
+  keyboardShortcutsScope?: KeyboardShortcutsScope;
+  gestures?: boolean | GestureOptions; // touch gestures, on by default
+  videoFit?: VideoFit;
+  zoom?: number; // 1-3, drag or pinch to pan while zoomed
+  aspectRatio?: string; // 'auto' follows the video; '4:3', '21:9' etc. reshape the picture and the player
+  videoFilters?: VideoFilters; // controls the picture adjustments when set
+  onVideoFiltersChange?: (filters: VideoFilters) => void;
+  audioProcessing?: boolean | Partial<AudioSettings>; // opt-in Web Audio chain; an object sets the starting values
+  segments?: VideoSegment[];
+  autoSkipSegments?: SegmentType[]; // skipped without asking until the viewer changes it in the settings
+  onSegmentSkip?: (segment: VideoSegment, automatic: boolean) => void;
+  heatmap?: number[] | string; // replay counts spread evenly over the video, or a URL to a JSON array of them
+  enableBookmarks?: boolean; // on by default when bookmarks are passed
+  bookmarks?: Bookmark[]; // controls the bookmarks when set
+  onBookmarksChange?: (bookmarks: Bookmark[]) => void;
+  danmaku?: DanmakuComment[]; // timed comments flying across the video
+  danmakuSettings?: Partial<DanmakuSettings>; // starting values until the viewer changes them
+  onComment?: (comment: DanmakuComment) => void; // shows a comment input; the comment is displayed right away
+  ads?: AdsOptions; // VAST/VMAP pre-, mid- and post-rolls
+  onAdBreakStart?: (adBreak: AdBreak) => void;
+  onAdBreakEnd?: (adBreak: AdBreak) => void;
+}
+
+// 'start' and 'end' are pre- and post-rolls, percentages are of the content duration
+export type AdBreakOffset = number | 'start' | 'end' | `${number}%`;
+
+export interface AdBreakSource {
+  id?: string;
+  offset: AdBreakOffset;
+  vast: string; // VAST tag URL, or the VAST XML itself
+}
+
+export interface AdBreak {
+  id: string;
+  offset: AdBreakOffset;
+  time: number | null; // seconds into the content, null until the duration is known
+  vast: string;
+  played: boolean;
+}
+
+// 'xml' requests resolve to the response body; 'tracking' requests are pixels whose response is ignored
+export type AdFetcher = (url: string, kind: 'xml' | 'tracking') => Promise<string>;
+
+export interface AdsOptions {
+  vmap?: string; // VMAP playlist URL, or the XML itself
+  breaks?: AdBreakSource[]; // played alongside any VMAP breaks
+  fetcher?: AdFetcher; // defaults to fetch()
+  maxWrapperDepth?: number; // VAST wrappers followed before giving up, defaults to 5
+}
+
+export type VastTrackingEvent =
+  | 'impression'
+  | 'error'
+  | 'click'
+  | 'creativeView'
+  | 'start'
+  | 'firstQuartile'
+  | 'midpoint'
+  | 'thirdQuartile'
+  | 'complete'
+  | 'pause'
+  | 'resume'
+  | 'mute'
+  | 'unmute'
+  | 'skip';
+
+export interface VastMediaFile {
+  url: string;
+  type: string;
+  width: number;
+  height: number;
+  bitrate?: number; // kbps
+}
+
+export interface VastAd {
+  id: string;
+  sequence?: number; // position within an ad pod
+  title?: string;
+  duration: number;
+  skipOffset: number | null; // seconds before the ad may be skipped, null when it can't be
+  mediaFiles: VastMediaFile[];
+  clickThrough?: string;
+  tracking: Partial<Record<VastTrackingEvent, string[]>>; // including that of the wrappers it came through
+}
+
+export interface AdPlayback {
+  adBreak: AdBreak;
+  ad: VastAd | null; // null while the break is loading
+  index: number; // position in the pod
+  count: number;
+  currentTime: number;
+  duration: number;
+  skippableIn: number | null; // seconds until the ad may be skipped, 0 once it may, null when it can't be
+  paused: boolean;
+  muted: boolean;
+}
+
+export type DanmakuMode = 'scroll' | 'top' | 'bottom';
+
+export interface DanmakuComment {
+  id?: string; // used to drop the local copy of a posted comment once it comes back in danmaku
+  time: number;
+  text: string;
+  mode?: DanmakuMode; // defaults to 'scroll'
+  color?: string;
+}
+
+export interface DanmakuSettings {
+  enabled: boolean;
+  density: number; // share of the picture height comments may use, 0-1
+  opacity: number;
+}
+
+export interface Bookmark {
+  id: string;
+  time: number;
+  note: string;
+  createdAt: number; // ms since the epoch
+}
+
+export type SegmentType = 'intro' | 'outro' | 'recap' | 'preview';
+
+export interface VideoSegment {
+  start: number;
+  end: number;
+  type: SegmentType;
+}
+
+export interface AudioSettings {
+  boost: number; // gain on top of the volume, 1-3
+  nightMode: boolean; // heavy dynamic range compression
+  eq: number[]; // dB for the 60, 230, 910, 3600 and 14000 Hz bands
+  balance: number; // -1 (left only) to 1 (right only)
+  mono: boolean; // downmix both channels to each ear
+  swapChannels: boolean;
+  mutedChannel: 'left' | 'right' | null;
+}
+
+export interface VideoFilters {
+  brightness?: number; // 1 is unchanged
+  contrast?: number; // 1 is unchanged
+  saturation?: number; // 1 is unchanged, 0 is greyscale
+  hue?: number; // degrees
+  gamma?: number; // 1 is unchanged, higher lifts dark scenes
+  sharpen?: number; // 0-1
+}
+
+export type VideoFit = 'contain' | 'cover' | 'fill';
+
+export interface GestureOptions {
+  doubleTapSeek?: number | false; // seconds per double-tap on the left/right third
+  swipeVolume?: boolean | 'fullscreen'; // inline vertical swipes scroll the page, so 'fullscreen' by default
+  swipeSeek?: number | false; // seconds covered by a swipe across the full width
+  longPressSpeed?: number | false; // temporary playback rate while pressing
+  pointerTypes?: Array<'touch' | 'pen' | 'mouse'>; // defaults to ['touch']
+}
+
+export type GestureFeedback =
+  | { type: 'seek'; side: 'left' | 'right'; seconds: number; id: number }
+  | { type: 'volume'; volume: number; id: number }
+  | { type: 'scrub'; time: number; delta: number; id: number }
+  | { type: 'speed'; rate: number; id: number };
+
+export type KeyboardAction =
+  | 'togglePlay'
+  | 'toggleMute'
+  | 'toggleFullscreen'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'seekForward'
+  | 'seekBackward'
+  | 'seekForwardLong'
+  | 'seekBackwardLong'
+  | 'seekToStart'
+  | 'seekToEnd'
+  | 'seekToPercent' // bind to digit keys, 0-9 seek to 0%-90%
+  | 'increaseSpeed'
+  | 'decreaseSpeed'
+  | 'nextFrame'
+  | 'previousFrame'
+  | 'toggleSubtitles'
+  | 'setLoopStart'
+  | 'setLoopEnd'
+  | 'clearLoop'
+  | 'addBookmark'
+  | 'toggleBookmarks'
+  | 'toggleShortcutsHelp';
+
+export type KeymapHandler = (event: KeyboardEvent, api: VideoPlayerApi) => void;
+
+// The object form lets custom handlers show up with a description in the shortcut help
+export type KeymapBinding = KeyboardAction | KeymapHandler | { handler: KeymapHandler; description?: string };
+
+// Keys are combos like 'space', 'shift+arrowright' or 'ctrl+alt+k'; null disables a default binding
+export type Keymap = Record<string, KeymapBinding | null>;
+
+// 'document' also catches keys pressed while nothing is focused, routed to the player used last
+export type KeyboardShortcutsScope = 'player' | 'document';
+
+export type TimeFormat = 'standard' | 'timecode'; // 'timecode' shows SMPTE HH:MM:SS:FF
+
+export interface ABLoopOptions {
+  maxRepeats?: number; // stop looping after this many repeats
+  slowdownStep?: number; // playback rate removed on each repeat
+  minRate?: number; // floor for slowdownStep, defaults to 0.25
 }
 
+export interface ABLoopRegion {
+  start: number;
+  end: number | null; // null while only point A is set
+  repeatCount: number;
+}
+
+export interface ViewerPreferences {
+  volume?: number;
+  muted?: boolean;
+  playbackRate?: number;
+  subtitleLanguage?: string | null; // null means subtitles off
+  subtitleFontScale?: number;
+  audioLanguage?: string;
+  maxQualityHeight?: number | null; // null means unrestricted auto
+  videoFilters?: VideoFilters;
+  audio?: Partial<AudioSettings>;
+  autoSkipSegments?: SegmentType[];
+  danmaku?: Partial<DanmakuSettings>;
+}
+
+export interface StorageAdapter {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem?: (key: string) => void | Promise<void>;
+}
+
+export interface ResumeOptions {
+  mediaId?: string; // defaults to the source URL
+  storage?: StorageAdapter; // defaults to localStorage
+  saveInterval?: number; // seconds between saves while playing
+  prompt?: boolean; // ask "Resume from 12:34?" instead of seeking straight away
+  minTime?: number; // seconds, positions before this are not worth restoring
+  endThreshold?: number; // seconds from the end where a position counts as finished
+}
+
+export type PictureInPictureMode = 'auto' | 'video' | 'document';
+
+export type MiniPlayerCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface ThumbnailCue {
+  startTime: number;
+  endTime: number;
+  url: string;
+  // Sprite region from a #xywh= media fragment, absent for plain per-frame images
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface Chapter {
+  title: string;
+  startTime: number;
+  endTime?: number;
+}
+
+export interface PlaylistItem {
+  src: string;
+  mediaId?: string;
+  poster?: string;
+  subtitles?: SubtitleTrack[];
+  title?: string;
+}
+
+export type RepeatMode = 'off' | 'one' | 'all';
+
 export interface CustomTheme {
   primaryColor?: string;
   primaryGradient?: string;
@@ -79,6 +390,7 @@ export interface VideoPlayerState {
   isFullscreen: boolean;
   showControls: boolean;
   selectedSubtitle: number | null;
+  subtitleFontScale: number; // 1 is the theme's size
   buffered: TimeRanges | null;
   playbackRate: number;
   availableQualities: QualityLevel[];
@@ -86,9 +398,129 @@ export interface VideoPlayerState {
   isLoading: boolean;
   error: Error | null;
   isMiniPlayer: boolean;
+  isPictureInPicture: boolean;
   showSettings: boolean;
+  showShortcutsHelp: boolean;
+  videoFit: VideoFit;
+  zoom: number;
+  aspectRatio: string;
+  videoFilters: VideoFilters;
+  audioSettings: AudioSettings;
+  isAudioProcessingAvailable: boolean;
   availableAudioTracks: AudioTrackOption[];
   selectedAudioTrack: number;
+  abLoop: ABLoopRegion | null;
+  activeSegment: VideoSegment | null;
+  autoSkipSegments: SegmentType[];
+  bookmarks: Bookmark[];
+  showBookmarks: boolean;
+  danmakuSettings: DanmakuSettings;
+  ad: AdPlayback | null; // the content is paused while an ad break plays
+}
+
+export interface VideoPlayerActions {
+  play: () => Promise<void>;
+  pause: () => void;
+  togglePlay: () => Promise<void>;
+  toggleMute: () => void;
+  setVolume: (volume: number) => void;
+  seekTo: (time: number) => void;
+  seekBy: (seconds: number) => void;
+  toggleFullscreen: () => Promise<void>;
+  setPlaybackRate: (rate: number) => void;
+  increaseSpeed: () => void;
+  decreaseSpeed: () => void;
+  selectSubtitle: (index: number | null) => void;
+  toggleSubtitles: () => void;
+  setSubtitleFontScale: (scale: number) => void;
+  setQuality: (quality: string) => void;
+  setAudioTrack: (trackId: number) => void;
+  seekToChapter: (index: number) => void;
+  closeMiniPlayer: () => void;
+  restoreMiniPlayer: () => void;
+  togglePictureInPicture: () => Promise<void>;
+  acceptResume: () => void;
+  dismissResume: () => void;
+  setLoopStart: (time?: number) => void;
+  setLoopEnd: (time?: number) => void;
+  clearLoop: () => void;
+  stepFrame: (frames: number) => void; // pauses first, negative steps go back
+  showControls: () => void;
+  hideControls: () => void;
+  setShowSettings: (show: boolean) => void;
+  toggleSettings: () => void;
+  setShowShortcutsHelp: (show: boolean) => void;
+  toggleShortcutsHelp: () => void;
+  setVideoFit: (fit: VideoFit) => void;
+  setZoom: (zoom: number) => void;
+  setAspectRatio: (aspectRatio: string) => void;
+  setVideoFilters: (filters: VideoFilters) => void; // merged into the current adjustments
+  resetVideoFilters: () => void;
+  setAudioSettings: (settings: Partial<AudioSettings>) => void;
+  skipSegment: () => void; // skips the segment playing right now, if any
+  setAutoSkipSegment: (type: SegmentType, autoSkip: boolean) => void;
+  addBookmark: (time?: number, note?: string) => Bookmark; // defaults to the current time
+  updateBookmark: (id: string, changes: Partial<Pick<Bookmark, 'time' | 'note'>>) => void;
+  removeBookmark: (id: string) => void;
+  importBookmarks: (json: string, replace?: boolean) => number; // merges by id unless replace is set
+  exportBookmarks: () => string;
+  setShowBookmarks: (show: boolean) => void;
+  toggleBookmarks: () => void;
+  setDanmakuSettings: (settings: Partial<DanmakuSettings>) => void;
+  toggleDanmaku: () => void;
+  postComment: (text: string, style?: Pick<DanmakuComment, 'mode' | 'color'>) => DanmakuComment | null; // at the current time
+  skipAd: () => void; // only once the ad's skip offset has passed
+  clickAd: () => void; // opens the ad's click-through page and pauses the ad
+}
+
+export interface VideoPlayerHandle {
+  play: () => Promise<void>;
+  pause: () => void;
+  togglePlay: () => Promise<void>;
+  seekTo: (time: number) => void;
+  seekBy: (seconds: number) => void;
+  setVolume: (volume: number) => void;
+  toggleMute: () => void;
+  setPlaybackRate: (rate: number) => void;
+  setQuality: (quality: string) => void;
+  setAudioTrack: (trackId: number) => void;
+  toggleFullscreen: () => Promise<void>;
+  togglePictureInPicture: () => Promise<void>;
+  setLoopStart: (time?: number) => void;
+  setLoopEnd: (time?: number) => void;
+  clearLoop: () => void;
+  stepFrame: (frames: number) => void;
+  skipSegment: () => void;
+  addBookmark: (time?: number, note?: string) => Bookmark;
+  removeBookmark: (id: string) => void;
+  importBookmarks: (json: string, replace?: boolean) => number;
+  exportBookmarks: () => string;
+  skipAd: () => void;
+  playNext: () => void;
+  playPrevious: () => void;
+  goToPlaylistItem: (index: number) => void;
+  getState: () => VideoPlayerState;
+  getVideoElement: () => HTMLVideoElement | null;
+  getStreamEngine: () => VideoLoaderResult | null;
+}
+
+export interface VideoPlayerApi extends VideoPlayerActions {
+  getState: () => VideoPlayerState;
+  getVideoElement: () => HTMLVideoElement | null;
+  getContainerElement: () => HTMLElement | null;
+  getStreamEngine: () => VideoLoaderResult | null;
+}
+
+export interface VideoPlayerPlugin {
+  name: string;
+  onInit?: (api: VideoPlayerApi) => void;
+  onSourceLoaded?: (loaderResult: VideoLoaderResult, api: VideoPlayerApi) => void;
+  onTimeUpdate?: (currentTime: number, api: VideoPlayerApi) => void;
+  onDestroy?: () => void;
+  // UI contributions, rendered on every player render
+  renderControlBar?: (api: VideoPlayerApi) => React.ReactNode;
+  renderSettingsMenu?: (api: VideoPlayerApi) => React.ReactNode;
+  renderOverlay?: (api: VideoPlayerApi) => React.ReactNode;
 }
 
 export interface QualityLevel {
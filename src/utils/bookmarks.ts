@@ -0,0 +1,39 @@
+import { Bookmark } from '../types';
+
+let bookmarkCount = 0;
+
+export const createBookmarkId = () => `bookmark-${Date.now().toString(36)}-${++bookmarkCount}`;
+
+export const sortBookmarks = (bookmarks: Bookmark[]): Bookmark[] => [...bookmarks].sort((a, b) => a.time - b.time);
+
+export const serializeBookmarks = (bookmarks: Bookmark[]): string =>
+  JSON.stringify({ version: 1, bookmarks: sortBookmarks(bookmarks) }, null, 2);
+
+// Accepts a plain array or serializeBookmarks output; throws on anything else
+export const parseBookmarks = (json: string): Bookmark[] => {
+  const data = JSON.parse(json);
+  const entries: unknown[] | null = Array.isArray(data) ? data : Array.isArray(data?.bookmarks) ? data.bookmarks : null;
+  if (!entries) throw new Error('Expected an array of bookmarks');
+
+  return sortBookmarks(
+    entries.reduce<Bookmark[]>((bookmarks, entry) => {
+      const item = entry as Partial<Bookmark> | null;
+      const time = Number(item?.time);
+      if (!item || !isFinite(time) || time < 0) return bookmarks;
+
+      bookmarks.push({
+        id: typeof item.id === 'string' && item.id ? item.id : createBookmarkId(),
+        time,
+        note: typeof item.note === 'string' ? item.note : '',
+        createdAt: typeof item.createdAt === 'number' ? item.createdAt : Date.now()
+      });
+      return bookmarks;
+    }, [])
+  );
+};
+
+// Imported bookmarks replace existing ones with the same id
+export const mergeBookmarks = (current: Bookmark[], incoming: Bookmark[]): Bookmark[] => {
+  const incomingIds = new Set(incoming.map(bookmark => bookmark.id));
+  return sortBookmarks([...current.filter(bookmark => !incomingIds.has(bookmark.id)), ...incoming]);
+};
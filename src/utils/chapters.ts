@@ -0,0 +1,51 @@
+import { Chapter } from '../types';
+import { parseSubtitles, parseSubtitlesFromString } from './subtitleParser';
+
+const cuesToChapters = (cues: Array<{ text: string; startTime: number; endTime: number }>): Chapter[] => {
+  return cues.map(cue => ({
+    title: cue.text.replace(/\n/g, ' ').trim(),
+    startTime: cue.startTime,
+    endTime: cue.endTime
+  }));
+};
+
+export const parseChapters = async (url: string): Promise<Chapter[]> => {
+  return cuesToChapters(await parseSubtitles(url));
+};
+
+export const parseChaptersFromString = (content: string, sourceName = ''): Chapter[] => {
+  return cuesToChapters(parseSubtitlesFromString(content, sourceName));
+};
+
+export const normalizeChapters = (chapters: Chapter[], duration: number): Chapter[] => {
+  const sorted = chapters
+    .filter(chapter => isFinite(chapter.startTime))
+    .sort((a, b) => a.startTime - b.startTime);
+
+  return sorted.map((chapter, index) => {
+    const nextStart = index < sorted.length - 1 ? sorted[index + 1].startTime : undefined;
+    const fallbackEnd = nextStart ?? (duration > 0 ? duration : chapter.startTime);
+    return {
+      ...chapter,
+      endTime: chapter.endTime !== undefined ? Math.min(chapter.endTime, fallbackEnd) : fallbackEnd
+    };
+  });
+};
+
+export const getChapterIndexAtTime = (chapters: Chapter[], time: number): number => {
+  let low = 0;
+  let high = chapters.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (chapters[mid].startTime <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+};
@@ -0,0 +1,104 @@
+import { DanmakuComment, DanmakuMode } from '../types';
+
+export const DANMAKU_SCROLL_SECONDS = 8; // time for a comment to cross the screen at 1x
+export const DANMAKU_FIXED_SECONDS = 4;
+
+export interface DanmakuItem {
+  id: string;
+  time: number;
+  text: string;
+  mode: DanmakuMode;
+  color?: string;
+  lane: number;
+  width: number; // px
+}
+
+export interface DanmakuLayoutOptions {
+  width: number; // px
+  laneCount: number; // lanes usable by each mode
+  fontSize: number; // px
+  measureText?: (text: string, fontSize: number) => number;
+  pinnedIds?: Set<string>; // always shown, even if that means overlapping
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+const measureCache = new Map<string, number>();
+
+export const measureDanmakuText = (text: string, fontSize: number): number => {
+  const cacheKey = `${fontSize}|${text}`;
+  const cached = measureCache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  }
+  if (!measureContext) return text.length * fontSize;
+
+  measureContext.font = `bold ${fontSize}px sans-serif`;
+  const width = measureContext.measureText(text).width;
+  if (measureCache.size > 5000) measureCache.clear();
+  measureCache.set(cacheKey, width);
+  return width;
+};
+
+export const getDanmakuId = (comment: DanmakuComment, index: number) =>
+  comment.id ?? `danmaku-${index}-${comment.time}-${comment.text}`;
+
+export const getDanmakuDuration = (mode: DanmakuMode) =>
+  mode === 'scroll' ? DANMAKU_SCROLL_SECONDS : DANMAKU_FIXED_SECONDS;
+
+// Lanes are assigned in video time from the comments alone, so the layout stays the same across seeks.
+// A comment with no lane free of overlap is dropped
+export const layoutDanmaku = (comments: DanmakuComment[], options: DanmakuLayoutOptions): DanmakuItem[] => {
+  const { width, laneCount, fontSize, measureText = measureDanmakuText, pinnedIds } = options;
+  if (width <= 0 || laneCount <= 0) return [];
+
+  const sorted = comments
+    .map((comment, index) => ({ comment, id: getDanmakuId(comment, index) }))
+    .filter(({ comment }) => comment.text && isFinite(comment.time))
+    .sort((a, b) => a.comment.time - b.comment.time);
+
+  const lanes: Record<DanmakuMode, Array<DanmakuItem | null>> = {
+    scroll: new Array(laneCount).fill(null),
+    top: new Array(laneCount).fill(null),
+    bottom: new Array(laneCount).fill(null)
+  };
+
+  const speed = (item: { width: number }) => (width + item.width) / DANMAKU_SCROLL_SECONDS;
+
+  const fits = (previous: DanmakuItem | null, next: { time: number; width: number; mode: DanmakuMode }) => {
+    if (!previous) return true;
+    if (next.mode !== 'scroll') return next.time >= previous.time + DANMAKU_FIXED_SECONDS;
+
+    // The previous comment's tail must be on screen before the next one enters...
+    const previousSpeed = speed(previous);
+    if (next.time < previous.time + previous.width / previousSpeed) return false;
+
+    // ...and the next one must not reach the left edge before the previous one is gone
+    return next.time + width / speed(next) >= previous.time + DANMAKU_SCROLL_SECONDS;
+  };
+
+  const items: DanmakuItem[] = [];
+
+  sorted.forEach(({ comment, id }) => {
+    const mode = comment.mode ?? 'scroll';
+    const candidate = { time: comment.time, width: measureText(comment.text, fontSize), mode };
+    const modeLanes = lanes[mode];
+
+    let lane = modeLanes.findIndex(previous => fits(previous, candidate));
+    if (lane === -1 && pinnedIds?.has(id)) {
+      // Fall back to the lane that was used longest ago
+      lane = modeLanes.reduce(
+        (oldest, previous, index) => ((previous?.time ?? -Infinity) < (modeLanes[oldest]?.time ?? -Infinity) ? index : oldest),
+        0
+      );
+    }
+    if (lane === -1) return;
+
+    const item: DanmakuItem = { id, time: comment.time, text: comment.text, mode, color: comment.color, lane, width: candidate.width };
+    modeLanes[lane] = item;
+    items.push(item);
+  });
+
+  return items;
+};
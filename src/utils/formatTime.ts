@@ -24,3 +24,76 @@ export const parseTimeToSeconds = (timeStr: string): number => {
   
   return seconds;
 };
+
+export const DEFAULT_FRAME_RATE = 30; // used for frame stepping until the real rate is known
+
+// Anything that rounds to less than one frame per second can't be labelled, so fall back
+const getUsableFrameRate = (frameRate: number): number =>
+  isFinite(frameRate) && Math.round(frameRate) >= 1 ? frameRate : DEFAULT_FRAME_RATE;
+
+// 29.97 and 59.94 fps material is conventionally labelled with drop-frame timecode
+export const isDropFrameRate = (frameRate: number): boolean =>
+  Math.abs(frameRate - 29.97) < 0.01 || Math.abs(frameRate - 59.94) < 0.01;
+
+export const formatTimecode = (
+  seconds: number,
+  frameRate: number,
+  dropFrame: boolean = isDropFrameRate(frameRate)
+): string => {
+  if (!isFinite(seconds) || isNaN(seconds) || seconds < 0) {
+    seconds = 0;
+  }
+  frameRate = getUsableFrameRate(frameRate);
+
+  const nominalRate = Math.round(frameRate);
+  // Small epsilon so a time sitting exactly on a frame boundary is not floored into the previous frame
+  let frameNumber = Math.floor(seconds * frameRate + 1e-6);
+
+  if (dropFrame) {
+    // Frame numbers 0 and 1 (0-3 at 59.94) are skipped every minute except each tenth minute
+    const dropFrames = Math.round(nominalRate / 15);
+    const framesPerMinute = nominalRate * 60 - dropFrames;
+    const framesPerTenMinutes = framesPerMinute * 10 + dropFrames;
+    const tenMinuteBlocks = Math.floor(frameNumber / framesPerTenMinutes);
+    const remainder = frameNumber % framesPerTenMinutes;
+
+    frameNumber += dropFrames * 9 * tenMinuteBlocks;
+    if (remainder > dropFrames) {
+      frameNumber += dropFrames * Math.floor((remainder - dropFrames) / framesPerMinute);
+    }
+  }
+
+  const frames = frameNumber % nominalRate;
+  const totalSeconds = Math.floor(frameNumber / nominalRate);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${dropFrame ? ';' : ':'}${pad(frames)}`;
+};
+
+export const parseTimecodeToSeconds = (
+  timecode: string,
+  frameRate: number,
+  dropFrame: boolean = timecode.includes(';') || isDropFrameRate(frameRate)
+): number => {
+  // Read from the right, so a short "SS:FF" or "MM:SS:FF" still lands in the right fields
+  const [frames = 0, secs = 0, minutes = 0, hours = 0] = timecode
+    .trim()
+    .split(/[:;.]/)
+    .reverse()
+    .map(part => parseInt(part, 10) || 0);
+
+  frameRate = getUsableFrameRate(frameRate);
+  const nominalRate = Math.round(frameRate);
+  let frameNumber = ((hours * 60 + minutes) * 60 + secs) * nominalRate + frames;
+
+  if (dropFrame) {
+    const dropFrames = Math.round(nominalRate / 15);
+    const totalMinutes = hours * 60 + minutes;
+    frameNumber -= dropFrames * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+
+  return frameNumber / frameRate;
+};
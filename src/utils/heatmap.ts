@@ -0,0 +1,94 @@
+export const HEATMAP_POINTS = 100;
+export const HEATMAP_PEAK_THRESHOLD = 0.8;
+
+const normalize = (values: number[]): number[] => {
+  const max = values.reduce((highest, value) => Math.max(highest, value), 0);
+  return max > 0 ? values.map(value => value / max) : values.map(() => 0);
+};
+
+// Buckets the raw values into a fixed number of points, evens out single-second spikes and scales to 0-1
+export const smoothHeatmap = (values: number[], points = HEATMAP_POINTS, radius = 2): number[] => {
+  const clean = values.map(value => (isFinite(value) && value > 0 ? value : 0));
+  if (clean.length === 0) return [];
+
+  const count = Math.min(points, clean.length);
+  const buckets = Array.from({ length: count }, (_, index) => {
+    const start = Math.floor((index * clean.length) / count);
+    const end = Math.max(start + 1, Math.floor(((index + 1) * clean.length) / count));
+    const slice = clean.slice(start, end);
+    return slice.reduce((sum, value) => sum + value, 0) / slice.length;
+  });
+
+  const averaged = buckets.map((_, index) => {
+    const window = buckets.slice(Math.max(0, index - radius), index + radius + 1);
+    return window.reduce((sum, value) => sum + value, 0) / window.length;
+  });
+
+  return normalize(averaged);
+};
+
+// Contiguous runs of points at or above the threshold, as [first, last] point indexes
+export const findHeatmapPeaks = (values: number[], threshold = HEATMAP_PEAK_THRESHOLD): Array<[number, number]> => {
+  const peaks: Array<[number, number]> = [];
+  let start = -1;
+
+  values.forEach((value, index) => {
+    if (value >= threshold && start === -1) start = index;
+    if ((value < threshold || index === values.length - 1) && start !== -1) {
+      peaks.push([start, value >= threshold ? index : index - 1]);
+      start = -1;
+    }
+  });
+
+  return peaks;
+};
+
+// Filled Catmull-Rom curve; from/to cut out a run of points on the same curve, for drawing peaks on top
+export const getHeatmapPath = (
+  values: number[],
+  width = 1000,
+  height = 100,
+  from = 0,
+  to = values.length - 1
+): string => {
+  if (values.length === 0) return '';
+
+  const step = values.length > 1 ? width / (values.length - 1) : width;
+  const point = (index: number) => {
+    const clamped = Math.max(0, Math.min(values.length - 1, index));
+    return { x: clamped * step, y: height - values[clamped] * height };
+  };
+  const clampY = (y: number) => Math.max(0, Math.min(height, y));
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const first = point(from);
+  let path = `M${round(first.x)},${height} L${round(first.x)},${round(first.y)}`;
+
+  for (let index = from; index < to; index++) {
+    const previous = point(index - 1);
+    const current = point(index);
+    const next = point(index + 1);
+    const afterNext = point(index + 2);
+
+    // Control points are clamped so the curve never overshoots the box
+    const c1x = current.x + (next.x - previous.x) / 6;
+    const c1y = clampY(current.y + (next.y - previous.y) / 6);
+    const c2x = next.x - (afterNext.x - current.x) / 6;
+    const c2y = clampY(next.y - (afterNext.y - current.y) / 6);
+    path += ` C${round(c1x)},${round(c1y)} ${round(c2x)},${round(c2y)} ${round(next.x)},${round(next.y)}`;
+  }
+
+  const last = point(to);
+  return `${path} L${round(last.x)},${height} Z`;
+};
+
+export const loadHeatmap = async (url: string): Promise<number[]> => {
+  try {
+    const response = await fetch(url);
+    const data = await response.json();
+    return Array.isArray(data) ? data.map(Number) : [];
+  } catch (error) {
+    console.error('Error loading heatmap:', error);
+    return [];
+  }
+};
@@ -0,0 +1,17 @@
+const normalizeLanguage = (language: string) => language.trim().toLowerCase().replace('_', '-');
+
+// Exact tag first ("pt-br"), then the primary subtag ("pt" matches "pt-PT")
+export const findLanguageMatch = <T>(
+  items: T[],
+  language: string,
+  getLanguage: (item: T) => string | undefined
+): number => {
+  const wanted = normalizeLanguage(language);
+  const languages = items.map(item => normalizeLanguage(getLanguage(item) ?? ''));
+
+  const exactIndex = languages.indexOf(wanted);
+  if (exactIndex >= 0) return exactIndex;
+
+  const primary = wanted.split('-')[0];
+  return languages.findIndex(candidate => candidate !== '' && candidate.split('-')[0] === primary);
+};
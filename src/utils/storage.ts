@@ -0,0 +1,51 @@
+import { StorageAdapter } from '../types';
+
+const memoryStore = new Map<string, string>();
+
+const memoryStorage: StorageAdapter = {
+  getItem: key => memoryStore.get(key) ?? null,
+  setItem: (key, value) => {
+    memoryStore.set(key, value);
+  },
+  removeItem: key => {
+    memoryStore.delete(key);
+  }
+};
+
+export const getDefaultStorage = (): StorageAdapter => {
+  // Private browsing and sandboxed iframes can throw on access
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return window.localStorage;
+    }
+  } catch {
+    // fall through to the in-memory store
+  }
+  return memoryStorage;
+};
+
+export const readStoredJSON = async <T>(storage: StorageAdapter, key: string): Promise<T | null> => {
+  try {
+    const raw = await storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (error) {
+    console.warn(`Error reading "${key}" from storage:`, error);
+    return null;
+  }
+};
+
+export const writeStoredJSON = async (storage: StorageAdapter, key: string, value: unknown): Promise<void> => {
+  try {
+    await storage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Error writing "${key}" to storage:`, error);
+  }
+};
+
+export const removeStored = async (storage: StorageAdapter, key: string): Promise<void> => {
+  try {
+    await storage.removeItem?.(key);
+  } catch (error) {
+    console.warn(`Error removing "${key}" from storage:`, error);
+  }
+};
@@ -0,0 +1,77 @@
+import { ThumbnailCue } from '../types';
+import { parseTimeToSeconds } from './formatTime';
+
+const resolveUrl = (path: string, baseUrl: string): string => {
+  try {
+    const base = typeof window !== 'undefined' ? new URL(baseUrl, window.location.href) : new URL(baseUrl);
+    return new URL(path, base).toString();
+  } catch {
+    return path;
+  }
+};
+
+export const parseThumbnailsVTT = (vttContent: string, baseUrl = ''): ThumbnailCue[] => {
+  const cues: ThumbnailCue[] = [];
+  const blocks = vttContent.replace(/\r/g, '').split(/\n\n+/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timeLineIndex = lines.findIndex(line => line.includes('-->'));
+    if (timeLineIndex === -1 || !lines[timeLineIndex + 1]) continue;
+
+    const timeMatch = lines[timeLineIndex].match(/([^\s]+)\s*-->\s*([^\s]+)/);
+    if (!timeMatch) continue;
+
+    const [path, fragment] = lines[timeLineIndex + 1].split('#');
+    const cue: ThumbnailCue = {
+      startTime: parseTimeToSeconds(timeMatch[1]),
+      endTime: parseTimeToSeconds(timeMatch[2]),
+      url: baseUrl ? resolveUrl(path, baseUrl) : path
+    };
+
+    // Sprite sheets address a region with a media fragment: sprite.jpg#xywh=x,y,w,h
+    const xywh = fragment?.match(/xywh=(?:pixel:)?(\d+),(\d+),(\d+),(\d+)/);
+    if (xywh) {
+      cue.x = parseInt(xywh[1], 10);
+      cue.y = parseInt(xywh[2], 10);
+      cue.width = parseInt(xywh[3], 10);
+      cue.height = parseInt(xywh[4], 10);
+    }
+
+    cues.push(cue);
+  }
+
+  return cues.sort((a, b) => a.startTime - b.startTime);
+};
+
+export const loadThumbnails = async (url: string): Promise<ThumbnailCue[]> => {
+  try {
+    const response = await fetch(url);
+    const content = await response.text();
+    return parseThumbnailsVTT(content, url);
+  } catch (error) {
+    console.error('Error loading thumbnails:', error);
+    return [];
+  }
+};
+
+export const findThumbnail = (cues: ThumbnailCue[], time: number): ThumbnailCue | null => {
+  let low = 0;
+  let high = cues.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const cue = cues[mid];
+
+    if (time < cue.startTime) {
+      high = mid - 1;
+    } else if (time >= cue.endTime) {
+      low = mid + 1;
+    } else {
+      return cue;
+    }
+  }
+
+  // Past the last cue (or in a gap) fall back to the closest earlier frame
+  return high >= 0 ? cues[high] : null;
+};
@@ -0,0 +1,309 @@
+import { AdBreakOffset, AdBreakSource, AdFetcher, VastAd, VastMediaFile, VastTrackingEvent } from '../types';
+import { parseTimeToSeconds } from './formatTime';
+
+export const MAX_WRAPPER_DEPTH = 5;
+
+// Codes sent in [ERRORCODE] when an ad can't be shown
+export const VAST_ERROR_CODES = {
+  xmlParse: 100,
+  wrapperFetch: 301,
+  wrapperLimit: 302,
+  noAds: 303,
+  noSupportedMedia: 403,
+  mediaPlayback: 405
+};
+
+const TRACKING_EVENTS: VastTrackingEvent[] = [
+  'creativeView',
+  'start',
+  'firstQuartile',
+  'midpoint',
+  'thirdQuartile',
+  'complete',
+  'pause',
+  'resume',
+  'mute',
+  'unmute',
+  'skip'
+];
+
+export type VastTracking = Partial<Record<VastTrackingEvent, string[]>>;
+
+export interface VastWrapper {
+  id: string;
+  sequence?: number;
+  adTagUrl: string;
+  tracking: VastTracking; // fired alongside the tracking of the ads it leads to
+}
+
+export interface VastDocument {
+  ads: Array<VastAd | VastWrapper>;
+  errorUrls: string[]; // top-level <Error>, called when the response has no ads
+}
+
+export const defaultAdFetcher: AdFetcher = async (url, kind) => {
+  if (kind === 'tracking') {
+    // Pixels are fire-and-forget, so an opaque response is fine and any ad server can be reached
+    await fetch(url, { mode: 'no-cors', credentials: 'include', keepalive: true });
+    return '';
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Request for ${url} failed with status ${response.status}`);
+  return response.text();
+};
+
+const isInlineXml = (source: string) => source.trim().startsWith('<');
+
+const parseXml = (xml: string): Element => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid XML');
+  return document.documentElement;
+};
+
+// Matched by local name so prefixed (vmap:AdBreak) and unprefixed elements both work
+const childElements = (parent: Element, name: string): Element[] =>
+  Array.from(parent.children).filter(child => child.localName === name);
+
+const findPath = (parent: Element, ...names: string[]): Element[] =>
+  names.reduce<Element[]>(
+    (elements, name) => elements.reduce<Element[]>((found, element) => found.concat(childElements(element, name)), []),
+    [parent]
+  );
+
+const textOf = (element?: Element): string => element?.textContent?.trim() ?? '';
+
+const parseSkipOffset = (value: string | null, duration: number): number | null => {
+  if (!value) return null;
+  if (value.endsWith('%')) return (duration * parseFloat(value)) / 100;
+  return parseTimeToSeconds(value);
+};
+
+const isWrapper = (ad: VastAd | VastWrapper): ad is VastWrapper => 'adTagUrl' in ad;
+
+export const mergeTracking = (...sources: VastTracking[]): VastTracking =>
+  sources.reduce<VastTracking>((merged, source) => {
+    (Object.keys(source) as VastTrackingEvent[]).forEach(event => {
+      merged[event] = [...(merged[event] ?? []), ...(source[event] ?? [])];
+    });
+    return merged;
+  }, {});
+
+// Keeps only linear creatives; wrappers are left for loadVAST to follow
+export const parseVAST = (xml: string): VastDocument => {
+  const root = parseXml(xml);
+  if (root.localName !== 'VAST') throw new Error('Not a VAST document');
+
+  const ads: VastDocument['ads'] = [];
+
+  childElements(root, 'Ad').forEach((adElement, index) => {
+    const inline = childElements(adElement, 'InLine')[0];
+    const wrapper = childElements(adElement, 'Wrapper')[0];
+    const body = inline ?? wrapper;
+    if (!body) return;
+
+    const id = adElement.getAttribute('id') || `ad-${index}`;
+    const sequenceAttribute = adElement.getAttribute('sequence');
+    const sequence = sequenceAttribute ? Number(sequenceAttribute) : undefined;
+    const linear = findPath(body, 'Creatives', 'Creative', 'Linear')[0];
+
+    const tracking: VastTracking = {};
+    const addTracking = (event: VastTrackingEvent, url: string) => {
+      if (url) tracking[event] = [...(tracking[event] ?? []), url];
+    };
+
+    childElements(body, 'Impression').forEach(element => addTracking('impression', textOf(element)));
+    childElements(body, 'Error').forEach(element => addTracking('error', textOf(element)));
+    if (linear) {
+      findPath(linear, 'TrackingEvents', 'Tracking').forEach(element => {
+        const event = element.getAttribute('event') as VastTrackingEvent;
+        if (TRACKING_EVENTS.includes(event)) addTracking(event, textOf(element));
+      });
+      findPath(linear, 'VideoClicks', 'ClickTracking').forEach(element => addTracking('click', textOf(element)));
+    }
+
+    if (wrapper) {
+      const adTagUrl = textOf(childElements(wrapper, 'VASTAdTagURI')[0]);
+      if (adTagUrl) ads.push({ id, sequence, adTagUrl, tracking });
+      return;
+    }
+    if (!linear) return;
+
+    const duration = parseTimeToSeconds(textOf(childElements(linear, 'Duration')[0]) || '0');
+    const mediaFiles = findPath(linear, 'MediaFiles', 'MediaFile').reduce<VastMediaFile[]>((files, element) => {
+      const url = textOf(element);
+      if (url) {
+        files.push({
+          url,
+          type: element.getAttribute('type') ?? '',
+          width: Number(element.getAttribute('width')) || 0,
+          height: Number(element.getAttribute('height')) || 0,
+          bitrate: Number(element.getAttribute('bitrate')) || undefined
+        });
+      }
+      return files;
+    }, []);
+
+    ads.push({
+      id,
+      sequence,
+      title: textOf(childElements(inline, 'AdTitle')[0]) || undefined,
+      duration,
+      skipOffset: parseSkipOffset(linear.getAttribute('skipoffset'), duration),
+      mediaFiles,
+      clickThrough: textOf(findPath(linear, 'VideoClicks', 'ClickThrough')[0]) || undefined,
+      tracking
+    });
+  });
+
+  return { ads, errorUrls: childElements(root, 'Error').map(textOf).filter(Boolean) };
+};
+
+// An ad pod plays in sequence order; without one, the first standalone ad plays alone
+const selectAdPod = (ads: VastAd[]): VastAd[] => {
+  const pod = ads.filter(ad => ad.sequence !== undefined).sort((a, b) => (a.sequence as number) - (b.sequence as number));
+  return pod.length > 0 ? pod : ads.slice(0, 1);
+};
+
+// Follows wrappers and merges their tracking into the ads; failures resolve to no ads instead of rejecting
+export const loadVAST = async (
+  vast: string,
+  fetcher: AdFetcher = defaultAdFetcher,
+  maxDepth = MAX_WRAPPER_DEPTH
+): Promise<VastAd[]> => {
+  const resolve = async (source: string, depth: number, inherited: VastTracking, sequence?: number): Promise<VastAd[]> => {
+    let xml: string;
+    try {
+      xml = isInlineXml(source) ? source : await fetcher(source, 'xml');
+    } catch (error) {
+      console.warn('Error fetching VAST:', error);
+      fireTracking(inherited.error, fetcher, { ERRORCODE: VAST_ERROR_CODES.wrapperFetch });
+      return [];
+    }
+
+    let document: VastDocument;
+    try {
+      document = parseVAST(xml);
+    } catch (error) {
+      console.warn('Error parsing VAST:', error);
+      fireTracking(inherited.error, fetcher, { ERRORCODE: VAST_ERROR_CODES.xmlParse });
+      return [];
+    }
+
+    if (document.ads.length === 0) {
+      fireTracking([...document.errorUrls, ...(inherited.error ?? [])], fetcher, { ERRORCODE: VAST_ERROR_CODES.noAds });
+      return [];
+    }
+
+    const resolved = await Promise.all(
+      document.ads.map(ad => {
+        const tracking = mergeTracking(inherited, ad.tracking);
+        const adSequence = sequence ?? ad.sequence;
+
+        if (!isWrapper(ad)) return Promise.resolve([{ ...ad, sequence: adSequence, tracking }]);
+        if (depth >= maxDepth) {
+          fireTracking(tracking.error, fetcher, { ERRORCODE: VAST_ERROR_CODES.wrapperLimit });
+          return Promise.resolve([]);
+        }
+        return resolve(ad.adTagUrl, depth + 1, tracking, adSequence);
+      })
+    );
+
+    return resolved.reduce<VastAd[]>((ads, group) => ads.concat(group), []);
+  };
+
+  return selectAdPod(await resolve(vast, 0, {}));
+};
+
+const parseVmapOffset = (value: string): AdBreakOffset | null => {
+  if (value === 'start' || value === 'end') return value;
+  if (/^\d+(\.\d+)?%$/.test(value)) return value as AdBreakOffset;
+  if (/^\d+:\d{2}:\d{2}(\.\d+)?$/.test(value)) return parseTimeToSeconds(value);
+  return null; // positional (#1) offsets aren't supported
+};
+
+// Each break keeps its inline VAST document or ad tag URL as vast
+export const parseVMAP = (xml: string): AdBreakSource[] => {
+  const root = parseXml(xml);
+  if (root.localName !== 'VMAP') throw new Error('Not a VMAP document');
+
+  return childElements(root, 'AdBreak').reduce<AdBreakSource[]>((breaks, element, index) => {
+    const offset = parseVmapOffset(element.getAttribute('timeOffset') ?? '');
+    const source = childElements(element, 'AdSource')[0];
+    if (offset === null || !source) return breaks;
+
+    const vastData = childElements(source, 'VASTAdData')[0] ?? childElements(source, 'VASTData')[0];
+    const vastElement = vastData && childElements(vastData, 'VAST')[0];
+    const vast = vastElement
+      ? new XMLSerializer().serializeToString(vastElement)
+      : textOf(childElements(source, 'AdTagURI')[0]);
+
+    if (vast) breaks.push({ id: element.getAttribute('breakId') || `vmap-break-${index}`, offset, vast });
+    return breaks;
+  }, []);
+};
+
+export const loadVMAP = async (vmap: string, fetcher: AdFetcher = defaultAdFetcher): Promise<AdBreakSource[]> => {
+  try {
+    return parseVMAP(isInlineXml(vmap) ? vmap : await fetcher(vmap, 'xml'));
+  } catch (error) {
+    console.error('Error loading VMAP:', error);
+    return [];
+  }
+};
+
+// Seconds into the content, or null while 'end' and percentages wait for the duration
+export const resolveAdBreakTime = (offset: AdBreakOffset, duration: number): number | null => {
+  if (offset === 'start') return 0;
+  if (typeof offset === 'number') return Math.max(0, offset);
+  if (!duration || !isFinite(duration)) return null;
+  if (offset === 'end') return duration;
+  return (duration * parseFloat(offset)) / 100;
+};
+
+// The smallest playable file that still fills the player, or the largest if none does
+export const selectMediaFile = (
+  mediaFiles: VastMediaFile[],
+  canPlayType: (type: string) => boolean,
+  playerWidth: number
+): VastMediaFile | null => {
+  const playable = mediaFiles.filter(file => !file.type || canPlayType(file.type)).sort((a, b) => a.width - b.width);
+  return playable.find(file => file.width >= playerWidth) ?? playable[playable.length - 1] ?? null;
+};
+
+const formatVastTime = (seconds: number) => {
+  const clamped = Math.max(0, seconds);
+  const pad = (value: number, length = 2) => String(Math.floor(value)).padStart(length, '0');
+  return `${pad(clamped / 3600)}:${pad((clamped % 3600) / 60)}:${pad(clamped % 60)}.${pad((clamped % 1) * 1000, 3)}`;
+};
+
+export interface VastMacros {
+  ERRORCODE?: number;
+  CONTENTPLAYHEAD?: number; // seconds
+  ADPLAYHEAD?: number; // seconds
+  ASSETURI?: string;
+}
+
+export const replaceVastMacros = (url: string, macros: VastMacros = {}): string => {
+  const values: Record<string, string | number | undefined> = {
+    CACHEBUSTING: String(Math.floor(Math.random() * 1e8)).padStart(8, '0'),
+    TIMESTAMP: new Date().toISOString(),
+    ERRORCODE: macros.ERRORCODE,
+    CONTENTPLAYHEAD: macros.CONTENTPLAYHEAD !== undefined ? formatVastTime(macros.CONTENTPLAYHEAD) : undefined,
+    MEDIAPLAYHEAD: macros.CONTENTPLAYHEAD !== undefined ? formatVastTime(macros.CONTENTPLAYHEAD) : undefined,
+    ADPLAYHEAD: macros.ADPLAYHEAD !== undefined ? formatVastTime(macros.ADPLAYHEAD) : undefined,
+    ASSETURI: macros.ASSETURI
+  };
+
+  return url.replace(/\[([A-Z_]+)\]/g, (match, name: string) =>
+    values[name] !== undefined ? encodeURIComponent(String(values[name])) : match
+  );
+};
+
+export const fireTracking = (urls: string[] | undefined, fetcher: AdFetcher = defaultAdFetcher, macros?: VastMacros) => {
+  urls?.forEach(url => {
+    Promise.resolve()
+      .then(() => fetcher(replaceVastMacros(url, macros), 'tracking'))
+      .catch(error => console.warn('Error firing ad tracking pixel:', error));
+  });
+};
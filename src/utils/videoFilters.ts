@@ -0,0 +1,48 @@
+import { VideoFilters } from '../types';
+
+export const DEFAULT_VIDEO_FILTERS: Required<VideoFilters> = {
+  brightness: 1,
+  contrast: 1,
+  saturation: 1,
+  hue: 0,
+  gamma: 1,
+  sharpen: 0
+};
+
+export const resolveVideoFilters = (filters?: VideoFilters): Required<VideoFilters> => ({
+  ...DEFAULT_VIDEO_FILTERS,
+  ...filters
+});
+
+// Gamma and sharpen have no CSS filter function, so they go through an SVG filter
+export const needsSvgFilter = (filters?: VideoFilters): boolean => {
+  const resolved = resolveVideoFilters(filters);
+  return resolved.gamma !== 1 || resolved.sharpen > 0;
+};
+
+export const isDefaultVideoFilters = (filters?: VideoFilters): boolean => {
+  const resolved = resolveVideoFilters(filters);
+  return (Object.keys(DEFAULT_VIDEO_FILTERS) as Array<keyof VideoFilters>).every(
+    key => resolved[key] === DEFAULT_VIDEO_FILTERS[key]
+  );
+};
+
+export const getCssFilter = (filters: VideoFilters | undefined, svgFilterId?: string): string | undefined => {
+  const { brightness, contrast, saturation, hue } = resolveVideoFilters(filters);
+  const parts: string[] = [];
+
+  if (svgFilterId && needsSvgFilter(filters)) parts.push(`url(#${svgFilterId})`);
+  if (brightness !== 1) parts.push(`brightness(${brightness})`);
+  if (contrast !== 1) parts.push(`contrast(${contrast})`);
+  if (saturation !== 1) parts.push(`saturate(${saturation})`);
+  if (hue !== 0) parts.push(`hue-rotate(${hue}deg)`);
+
+  return parts.length > 0 ? parts.join(' ') : undefined;
+};
+
+// 3x3 unsharp kernel; amount 0 is the identity, 1 a strong sharpen
+export const getSharpenKernel = (amount: number): string => {
+  const edge = -amount;
+  const center = 1 + 4 * amount;
+  return `0 ${edge} 0 ${edge} ${center} ${edge} 0 ${edge} 0`;
+};
@@ -33,15 +33,59 @@ export interface VideoLoaderResult {
   type?: 'native' | 'hls' | 'dash';
 }
 
+interface PreloadedSource {
+  videoElement: HTMLVideoElement;
+  result: Promise<VideoLoaderResult>;
+}
+
+// Sources prepared by preloadVideo, waiting for loadVideo to take them over
+const preloadedSources = new Map<string, PreloadedSource>();
+
+const releasePreloaded = ({ videoElement, result }: PreloadedSource) => {
+  result.then(loaded => loaded.cleanup?.()).catch(() => {});
+  videoElement.removeAttribute('src');
+  videoElement.load();
+};
+
+// Moves a preloaded engine onto the element that plays it
+const handOver = (loaded: VideoLoaderResult, videoElement: HTMLVideoElement, src: string): VideoLoaderResult => {
+  if (loaded.type === 'hls') {
+    const hls = loaded.player;
+    hls.attachMedia(videoElement);
+    // Until the manifest is parsed, letting autoStartLoad kick in is enough
+    hls.config.autoStartLoad = true;
+    if (hls.levels?.length) hls.startLoad();
+  } else if (loaded.type === 'dash') {
+    loaded.player.attachView(videoElement);
+  } else {
+    videoElement.src = src;
+  }
+  return loaded;
+};
+
 export const loadVideo = async (
   videoElement: HTMLVideoElement, 
-  src: string
+  src: string,
+  preload: boolean = false
 ): Promise<VideoLoaderResult> => {
   // Only run in browser environment
   if (typeof window === 'undefined') {
     return { type: 'native' };
   }
 
+  const preloaded = preload ? undefined : preloadedSources.get(src);
+  if (preloaded) {
+    preloadedSources.delete(src);
+    try {
+      const loaded = await preloaded.result;
+      preloaded.videoElement.removeAttribute('src');
+      preloaded.videoElement.load();
+      return handOver(loaded, videoElement, src);
+    } catch {
+      // Load it from scratch below
+    }
+  }
+
   const extension = src.toLowerCase().split('.').pop() || '';
   
   // Handle HLS streams
@@ -51,11 +95,13 @@ export const loadVideo = async (
     if (HlsClass && HlsClass.isSupported()) {
       const hls = new HlsClass({
         enableWorker: false,
-        lowLatencyMode: true
+        lowLatencyMode: true,
+        autoStartLoad: !preload
       });
       
       hls.loadSource(src);
-      hls.attachMedia(videoElement);
+      // A preloaded stream only fetches its manifest until it's handed over
+      if (!preload) hls.attachMedia(videoElement);
       
       return {
         cleanup: () => {
@@ -78,7 +124,7 @@ export const loadVideo = async (
       
       if (DashClass) {
         const dashPlayer = DashClass().create();
-        dashPlayer.initialize(videoElement, src, false);
+        dashPlayer.initialize(preload ? undefined : videoElement, src, false);
         
         return {
           cleanup: () => {
@@ -110,6 +156,24 @@ export const loadVideo = async (
   };
 };
 
+// Prepares src the same way loadVideo would, for loadVideo to take over when it's played
+export const preloadVideo = (src: string): (() => void) => {
+  if (typeof window === 'undefined' || preloadedSources.has(src)) return () => {};
+
+  const videoElement = document.createElement('video');
+  videoElement.muted = true;
+  videoElement.preload = 'metadata';
+  const entry: PreloadedSource = { videoElement, result: loadVideo(videoElement, src, true) };
+  preloadedSources.set(src, entry);
+
+  return () => {
+    // Once taken over, the engine belongs to the player
+    if (preloadedSources.get(src) !== entry) return;
+    preloadedSources.delete(src);
+    releasePreloaded(entry);
+  };
+};
+
 export const getSupportedFormats = async (): Promise<string[]> => {
   // Only run in browser environment
   if (typeof window === 'undefined') {